@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { fetchRecentEbird } from "../../server/providers/ebird";
+import { fetchInat } from "../../server/providers/inat";
+import { evaluateWatchlist } from "../../server/utils/alerts";
+import type { AlertSources } from "../../server/utils/alerts";
+import { alertsRequestSchema } from "../../src/types/schemas";
+import type { AlertsResponse } from "../../src/types/alerts";
+
+const SOURCES: AlertSources = { fetchRecentEbird, fetchInat };
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Watchlists are sent in the body, so only allow POST requests
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const parsed = alertsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({
+        error: `Invalid watchlist: ${issue.path.join(".") || "body"}: ${issue.message}`,
+      });
+    }
+
+    // Never cached: alerts are about what's new since the last check
+    const evaluation = await evaluateWatchlist(parsed.data, SOURCES);
+
+    const statuses = Object.values(evaluation.providers);
+    if (statuses.length > 0 && statuses.every((status) => status?.status === "error")) {
+      throw new Error("All alert sources failed");
+    }
+
+    // Delivered by the app as local notifications
+    const response: AlertsResponse = { ...evaluation };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Error in alerts endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
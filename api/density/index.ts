@@ -0,0 +1,122 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { fetchTile, mergeProviderStatus } from "../../server/providers/tileFetch";
+import { viewportToBoundingBox } from "../../server/utils/viewport";
+import { deduplicateObservations } from "../../server/utils/dedupe";
+import { resolveDateRange } from "../../server/utils/dates";
+import { applyFilters, parseFilterQuery } from "../../server/utils/filters";
+import { tilesForViewport } from "../../server/utils/tiles";
+import { binPoints } from "../../src/utils/density";
+import type { Observation, TaxaBucket } from "../../src/types/observation";
+import type { DensityGrid, DensityResponse } from "../../src/types/density";
+import type { ProviderId, ProviderStatusMap } from "../../src/types/provider";
+
+const DEFAULT_CELLS = 32;
+const MAX_CELLS = 64;
+const TILE_LIMIT = 500; // Per provider per tile; one page each
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // Parse query parameters
+    const lat = parseFloat(req.query.lat as string);
+    const lng = parseFloat(req.query.lng as string);
+    const latDelta = parseFloat(req.query.latDelta as string);
+    const lngDelta = parseFloat(req.query.lngDelta as string);
+
+    // Validate parameters
+    if (
+      isNaN(lat) ||
+      isNaN(lng) ||
+      isNaN(latDelta) ||
+      isNaN(lngDelta) ||
+      latDelta <= 0 ||
+      lngDelta <= 0
+    ) {
+      return res.status(400).json({
+        error: "Invalid parameters. Required: lat, lng, latDelta, lngDelta",
+      });
+    }
+
+    // Parse filter parameters
+    const { filters, error: filterError } = parseFilterQuery(req.query);
+    if (!filters) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    const cells = req.query.cells
+      ? parseInt(req.query.cells as string, 10)
+      : DEFAULT_CELLS;
+    if (isNaN(cells) || cells < 1 || cells > MAX_CELLS) {
+      return res.status(400).json({
+        error: `Invalid cells. Must be between 1 and ${MAX_CELLS}`,
+      });
+    }
+
+    const viewport = { lat, lng, latDelta, lngDelta };
+    const bbox = viewportToBoundingBox(viewport);
+    const dateRange = resolveDateRange(filters);
+
+    // Same tiles and cache as /api/observations, but one large page per tile
+    const tiles = tilesForViewport(viewport, bbox);
+    const tileResults = await Promise.all(
+      tiles.map((tile) => fetchTile(tile, filters, dateRange, TILE_LIMIT, null))
+    );
+
+    const providerStatus: ProviderStatusMap = {};
+    tileResults.forEach((tileResult) => {
+      for (const [id, status] of Object.entries(tileResult.providers)) {
+        const providerId = id as ProviderId;
+        providerStatus[providerId] = mergeProviderStatus(
+          providerStatus[providerId],
+          status!
+        );
+      }
+    });
+
+    const observations: Observation[] = applyFilters(
+      deduplicateObservations(tileResults.flatMap((tileResult) => tileResult.observations)),
+      filters
+    );
+
+    const bounds: DensityGrid["bounds"] = {
+      north: bbox.ne.lat,
+      south: bbox.sw.lat,
+      east: bbox.ne.lng,
+      west: bbox.sw.lng,
+    };
+
+    const byTaxa = new Map<TaxaBucket, Observation[]>();
+    observations.forEach((obs) => {
+      const group = byTaxa.get(obs.taxaBucket);
+      if (group) {
+        group.push(obs);
+      } else {
+        byTaxa.set(obs.taxaBucket, [obs]);
+      }
+    });
+
+    const response: DensityResponse = {
+      grid: binPoints(observations, bounds, cells),
+      taxa: {},
+      providers: providerStatus,
+    };
+    byTaxa.forEach((group, taxaBucket) => {
+      response.taxa[taxaBucket] = binPoints(group, bounds, cells);
+    });
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Error in density endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -1,11 +1,25 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { fetchRecentEbird } from "../../server/providers/ebird";
-import { fetchInat } from "../../server/providers/inat";
-import { viewportToBoundingBox, viewportToCenterRadius } from "../../server/utils/viewport";
+import { fetchTile, mergeProviderStatus } from "../../server/providers/tileFetch";
+import { viewportToBoundingBox } from "../../server/utils/viewport";
 import { deduplicateObservations } from "../../server/utils/dedupe";
-import { getCacheKey, getCached, setCached } from "../../server/utils/cache";
-import type { Observation, Provider, TaxaBucket } from "../../src/types/observation";
-import type { FilterParams, RecencyFilter } from "../../src/types/filters";
+import { decodeCursor, encodeCursor, toProviderCursors } from "../../server/utils/cursor";
+import { resolveDateRange } from "../../server/utils/dates";
+import { applyFilters, parseFilterQuery } from "../../server/utils/filters";
+import { clusterCellSize, clusterObservations } from "../../server/utils/clusters";
+import { parseFieldsQuery, toWireObservation } from "../../server/utils/wire";
+import type { TileCursorMap } from "../../server/utils/cursor";
+import { takePage } from "../../server/utils/paging";
+import type { PageSource } from "../../server/utils/paging";
+import { tileKey, tilesForViewport } from "../../server/utils/tiles";
+import { OBSERVATIONS_SCHEMA_VERSION } from "../../src/types/observation";
+import type { Observation } from "../../src/types/observation";
+import type { ProviderId, ProviderStatusMap } from "../../src/types/provider";
+import type { Diagnostics } from "../../src/types/schemas";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const TILE_PAGE_SIZE = 100; // Per provider per tile; the merged page is cut to `limit`
+const MAX_CLUSTER_OBSERVATIONS = 2000; // Per provider across all tiles
 
 export default async function handler(
   req: VercelRequest,
@@ -38,148 +52,149 @@ export default async function handler(
     }
 
     // Parse filter parameters
-    const filters: FilterParams = {
-      recency: (req.query.recency as RecencyFilter) || null,
-      hasPhoto: req.query.hasPhoto
-        ? req.query.hasPhoto === "true"
-        : null,
-      taxa: req.query.taxa
-        ? (req.query.taxa as string).split(",").filter((t): t is TaxaBucket => {
-            const validTaxa: TaxaBucket[] = [
-              "Bird",
-              "Mammal",
-              "Reptile",
-              "Amphibian",
-              "Fish",
-              "Insect",
-              "Arachnid",
-              "Mollusk",
-              "Plant",
-              "Fungi",
-              "Other",
-            ];
-            return validTaxa.includes(t as TaxaBucket);
-          })
-        : [],
-      provider: req.query.provider
-        ? (req.query.provider as string)
-            .split(",")
-            .filter((p): p is Provider => p === "ebird" || p === "inat")
-        : [],
-    };
+    const { filters, error: filterError } = parseFilterQuery(req.query);
+    if (!filters) {
+      return res.status(400).json({ error: filterError });
+    }
 
-    // Validate recency filter
-    if (
-      filters.recency &&
-      !["today", "this_week", "this_month"].includes(filters.recency)
-    ) {
+    // clusters mode returns grouped counts instead of observations
+    const mode = (req.query.mode as string) || "observations";
+    if (mode !== "observations" && mode !== "clusters") {
+      return res.status(400).json({
+        error: "Invalid mode. Must be: observations or clusters",
+      });
+    }
+
+    // Optional field selection; raw upstream payloads only when debugging
+    const { fields, error: fieldsError } = parseFieldsQuery(req.query.fields);
+    if (fieldsError) {
+      return res.status(400).json({ error: fieldsError });
+    }
+    const debug = req.query.debug === "1" || req.query.debug === "true";
+
+    // Parse paging parameters (limit applies to the merged page)
+    // Clusters have no pages; `limit` is fetched per provider per tile instead
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : mode === "clusters"
+        ? MAX_LIMIT
+        : DEFAULT_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
       return res.status(400).json({
-        error: "Invalid recency filter. Must be: today, this_week, or this_month",
+        error: `Invalid limit. Must be between 1 and ${MAX_LIMIT}`,
       });
     }
 
+    const cursor = (req.query.cursor as string) || null;
+    if (cursor && mode === "clusters") {
+      return res.status(400).json({ error: "cursor is not supported with mode=clusters" });
+    }
+    let tileCursors: TileCursorMap | null = null;
+    if (cursor) {
+      tileCursors = decodeCursor(cursor);
+      if (!tileCursors) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+    }
+
     const viewport = { lat, lng, latDelta, lngDelta };
 
-    // Check cache first (with filters)
-    const cacheKey = getCacheKey(lat, lng, latDelta, lngDelta, filters);
-    const cached = getCached(cacheKey);
-    
-    if (cached) {
-      return res.status(200).json({
-        observations: cached,
-      });
+    // Cover the viewport with fixed tiles
+    // Follow-up pages only revisit tiles that still have results
+    let tiles = tilesForViewport(viewport, viewportToBoundingBox(viewport));
+    if (tileCursors) {
+      const viewportTileKeys = new Set(tiles.map(tileKey));
+      if (Object.keys(tileCursors).some((key) => !viewportTileKeys.has(key))) {
+        return res.status(400).json({ error: "cursor does not match the viewport" });
+      }
+      tiles = tiles.filter((tile) => tileCursors![tileKey(tile)] !== undefined);
     }
 
-    // Convert viewport to bounding box and center+radius
-    const bbox = viewportToBoundingBox(viewport);
-    const centerRadius = viewportToCenterRadius(viewport);
+    // Every provider queries the same dates, whatever the source of the range
+    const dateRange = resolveDateRange(filters);
+
+    // Clusters split a fixed budget between tiles so the total stays bounded
+    const tileLimit =
+      mode === "clusters"
+        ? Math.max(1, Math.min(limit, Math.floor(MAX_CLUSTER_OBSERVATIONS / tiles.length)))
+        : TILE_PAGE_SIZE;
+
+    // Fetch tiles in parallel (cached tiles return immediately)
+    // Follow-up pages refetch the upstream page a position points into, usually from cache
+    const tileResults = await Promise.all(
+      tiles.map((tile) => {
+        const positions = tileCursors?.[tileKey(tile)];
+        return fetchTile(
+          tile,
+          filters,
+          dateRange,
+          tileLimit,
+          positions ? toProviderCursors(positions) : null
+        );
+      })
+    );
+
+    const providerStatus: ProviderStatusMap = {};
+    const sources: PageSource[] = [];
+    tiles.forEach((tile, index) => {
+      const tileResult = tileResults[index];
+      for (const [id, status] of Object.entries(tileResult.providers)) {
+        const providerId = id as ProviderId;
+        providerStatus[providerId] = mergeProviderStatus(
+          providerStatus[providerId],
+          status!
+        );
+
+        const position = tileCursors?.[tileKey(tile)]?.[providerId] ?? {
+          cursor: null,
+          offset: 0,
+        };
+        sources.push({
+          tileKey: tileKey(tile),
+          provider: providerId,
+          position,
+          observations: tileResult.observations
+            .filter((obs) => obs.provider === providerId)
+            .slice(position.offset),
+          nextCursor: tileResult.nextCursors[providerId],
+        });
+      }
+    });
 
-    // Map recency filter to days
-    const recencyDays: Record<RecencyFilter, number> = {
-      today: 1,
-      this_week: 7,
-      this_month: 30,
-      null: 7, // default
+    // Malformed upstream records that were left out
+    const diagnostics: Diagnostics = {
+      dropped: Object.values(providerStatus).reduce(
+        (sum, status) => sum + (status?.dropped ?? 0),
+        0
+      ),
     };
-    const backDays = filters.recency
-      ? recencyDays[filters.recency]
-      : 7;
-    const recentDays = filters.recency
-      ? recencyDays[filters.recency]
-      : 14;
-
-    // Determine which providers to fetch
-    const shouldFetchEbird =
-      filters.provider.length === 0 || filters.provider.includes("ebird");
-    const shouldFetchInat =
-      filters.provider.length === 0 || filters.provider.includes("inat");
-
-    // eBird doesn't provide photos, so skip if hasPhoto filter requires photos
-    const shouldFetchEbirdWithPhotoFilter =
-      shouldFetchEbird && !(filters.hasPhoto === true);
-
-    // Fetch from providers in parallel
-    const ebirdPromise = shouldFetchEbirdWithPhotoFilter
-      ? fetchRecentEbird({
-          center: centerRadius.center,
-          radiusKm: centerRadius.radiusKm,
-          backDays,
-        })
-      : Promise.resolve<Observation[]>([]);
-
-    const inatPromise = shouldFetchInat
-      ? fetchInat({
-          bbox,
-          center: centerRadius.center,
-          radiusKm: centerRadius.radiusKm,
-          recentDays,
-          hasPhotos: filters.hasPhoto === true ? true : filters.hasPhoto === false ? false : undefined,
-        })
-      : Promise.resolve<Observation[]>([]);
-
-    const [ebirdObservations, inatObservations] = await Promise.all([
-      ebirdPromise,
-      inatPromise,
-    ]);
-
-    // Combine and deduplicate
-    const allObservations: Observation[] = [
-      ...ebirdObservations,
-      ...inatObservations,
-    ];
-
-    const deduplicated = deduplicateObservations(allObservations);
-
-    // Apply filters after fetching
-    let filtered = deduplicated;
-
-    // Filter by taxa
-    if (filters.taxa.length > 0) {
-      filtered = filtered.filter((obs) =>
-        filters.taxa.includes(obs.taxaBucket)
-      );
-    }
 
-    // Filter by provider (already handled in fetch, but double-check)
-    if (filters.provider.length > 0) {
-      filtered = filtered.filter((obs) =>
-        filters.provider.includes(obs.provider)
-      );
-    }
+    // Deduplicate and apply filters after fetching
+    const select = (observations: Observation[]) =>
+      applyFilters(deduplicateObservations(observations), filters);
 
-    // Filter by photo
-    if (filters.hasPhoto === true) {
-      filtered = filtered.filter((obs) => obs.photoUrl !== undefined);
-    } else if (filters.hasPhoto === false) {
-      filtered = filtered.filter((obs) => obs.photoUrl === undefined);
+    if (mode === "clusters") {
+      const filtered = select(tileResults.flatMap((tileResult) => tileResult.observations));
+      return res.status(200).json({
+        clusters: clusterObservations(filtered, clusterCellSize(viewport)),
+        total: filtered.length,
+        // Some providers had more results than one page; counts are lower bounds
+        truncated: sources.some((source) => source.nextCursor !== undefined),
+        providers: providerStatus,
+        diagnostics,
+      });
     }
 
-    // Cache the results
-    setCached(cacheKey, filtered);
+    const page = takePage(sources, limit, select);
 
-    // Return clean observations
     return res.status(200).json({
-      observations: filtered,
+      schemaVersion: OBSERVATIONS_SCHEMA_VERSION,
+      observations: page.observations.map((obs) =>
+        toWireObservation(obs, { fields: fields ?? null, debug })
+      ),
+      providers: providerStatus,
+      nextCursor: encodeCursor(page.nextCursors),
+      diagnostics,
     });
   } catch (error) {
     console.error("Error in observations endpoint:", error);
@@ -0,0 +1,225 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { fetchInat, fetchInatSpeciesCounts } from "../../server/providers/inat";
+import { fetchHistoricEbird } from "../../server/providers/ebird";
+import { viewportToBoundingBox, viewportToCenterRadius } from "../../server/utils/viewport";
+import { getCached, setCached } from "../../server/utils/cache";
+import {
+  countSpecies,
+  rankSeasonalSpecies,
+  sameDayInYear,
+} from "../../server/utils/seasonal";
+import type { SpeciesCount } from "../../server/utils/seasonal";
+import { binPoints } from "../../src/utils/density";
+import type { ProviderStatus, ProviderStatusMap } from "../../src/types/provider";
+import type { SeasonalResponse } from "../../src/types/seasonal";
+
+const DEFAULT_YEARS = 5;
+const MAX_YEARS = 10;
+const DENSITY_CELLS = 24; // Along the longer side of the viewport
+const INAT_DENSITY_LIMIT = 1000; // Observation points sampled for the density layer
+const EBIRD_WINDOW_DAYS = 1; // eBird history is per day, so sample days around today
+
+interface YearCounts {
+  year: number;
+  species: SpeciesCount[];
+}
+
+interface SourceResult {
+  counts: YearCounts[];
+  points: Array<{ lat: number; lng: number }>;
+  dropped: number; // Malformed upstream records skipped
+  status: ProviderStatus;
+}
+
+/**
+ * Run one source's queries and record the outcome instead of throwing
+ */
+async function withStatus(
+  label: string,
+  run: () => Promise<Omit<SourceResult, "status">>
+): Promise<SourceResult> {
+  const startedAt = Date.now();
+
+  try {
+    const result = await run();
+    return {
+      ...result,
+      status: {
+        status: "ok",
+        count: result.counts.reduce(
+          (total, year) => total + year.species.reduce((sum, entry) => sum + entry.count, 0),
+          0
+        ),
+        latencyMs: Date.now() - startedAt,
+        ...(result.dropped > 0 && { dropped: result.dropped }),
+      },
+    };
+  } catch (error) {
+    console.error(`Error fetching ${label} seasonal data:`, error);
+    return {
+      counts: [],
+      points: [],
+      dropped: 0,
+      status: {
+        status: "error",
+        count: 0,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // Parse query parameters
+    const lat = parseFloat(req.query.lat as string);
+    const lng = parseFloat(req.query.lng as string);
+    const latDelta = parseFloat(req.query.latDelta as string);
+    const lngDelta = parseFloat(req.query.lngDelta as string);
+
+    // Validate parameters
+    if (
+      isNaN(lat) ||
+      isNaN(lng) ||
+      isNaN(latDelta) ||
+      isNaN(lngDelta) ||
+      latDelta <= 0 ||
+      lngDelta <= 0
+    ) {
+      return res.status(400).json({
+        error: "Invalid parameters. Required: lat, lng, latDelta, lngDelta",
+      });
+    }
+
+    const yearCount = req.query.years
+      ? parseInt(req.query.years as string, 10)
+      : DEFAULT_YEARS;
+    if (isNaN(yearCount) || yearCount < 1 || yearCount > MAX_YEARS) {
+      return res.status(400).json({
+        error: `Invalid years. Must be between 1 and ${MAX_YEARS}`,
+      });
+    }
+
+    // Same month in each of the previous years, newest first
+    const now = new Date();
+    const month = now.getUTCMonth() + 1;
+    const years = Array.from(
+      { length: yearCount },
+      (_, index) => now.getUTCFullYear() - 1 - index
+    );
+
+    // Rounded so nearby viewports share results
+    const cacheKey = [
+      `lat:${lat.toFixed(2)}`,
+      `lng:${lng.toFixed(2)}`,
+      `latDelta:${latDelta.toFixed(2)}`,
+      `lngDelta:${lngDelta.toFixed(2)}`,
+      `month:${month}`,
+      `years:${years.join(",")}`,
+    ].join("|");
+    const cached = await getCached("seasonal", cacheKey);
+    if (cached) {
+      return res.status(200).json(cached);
+    }
+
+    const viewport = { lat, lng, latDelta, lngDelta };
+    const bbox = viewportToBoundingBox(viewport);
+    const { center, radiusKm } = viewportToCenterRadius(viewport);
+
+    const [inatResult, ebirdResult] = await Promise.all([
+      // iNaturalist aggregates whole months across years upstream
+      withStatus("iNaturalist", async () => {
+        const [counts, page] = await Promise.all([
+          Promise.all(
+            years.map(async (year) => ({
+              year,
+              ...(await fetchInatSpeciesCounts({ bbox, months: [month], year })),
+            }))
+          ),
+          fetchInat({
+            bbox,
+            season: { months: [month], years },
+            limit: INAT_DENSITY_LIMIT,
+          }),
+        ]);
+        return {
+          counts: counts.map(({ year, species }) => ({ year, species })),
+          points: page.observations,
+          dropped: counts.reduce((sum, year) => sum + year.dropped, page.dropped),
+        };
+      }),
+      // eBird only has per-day history, so sample the days around today
+      withStatus("eBird", async () => {
+        const perYear = await Promise.all(
+          years.map(async (year) => ({
+            year,
+            ...(await fetchHistoricEbird({
+              center,
+              radiusKm,
+              dateRange: sameDayInYear(now, year, EBIRD_WINDOW_DAYS),
+            })),
+          }))
+        );
+        return {
+          counts: perYear.map(({ year, observations }) => ({
+            year,
+            species: countSpecies(observations),
+          })),
+          points: perYear.flatMap(({ observations }) => observations),
+          dropped: perYear.reduce((sum, year) => sum + year.dropped, 0),
+        };
+      }),
+    ]);
+
+    if (inatResult.status.status === "error" && ebirdResult.status.status === "error") {
+      throw new Error("All seasonal sources failed");
+    }
+
+    const providers: ProviderStatusMap = {
+      inat: inatResult.status,
+      ebird: ebirdResult.status,
+    };
+
+    const response: SeasonalResponse = {
+      month,
+      years,
+      species: rankSeasonalSpecies(
+        [...inatResult.counts, ...ebirdResult.counts],
+        years.length
+      ),
+      density: binPoints(
+        [...inatResult.points, ...ebirdResult.points],
+        {
+          north: bbox.ne.lat,
+          south: bbox.sw.lat,
+          east: bbox.ne.lng,
+          west: bbox.sw.lng,
+        },
+        DENSITY_CELLS
+      ),
+      providers,
+    };
+
+    // Only cache complete results so a failed source is retried next time
+    if (inatResult.status.status === "ok" && ebirdResult.status.status === "ok") {
+      await setCached("seasonal", cacheKey, response);
+    }
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Error in seasonal endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
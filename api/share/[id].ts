@@ -1,8 +1,13 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { normalizeInat } from "../../server/providers/normalize";
+import { normalizeGbif, normalizeInat } from "../../server/providers/normalize";
+import { fetchEbirdChecklistObservation } from "../../server/providers/ebird";
+import { getCached, setCached } from "../../server/utils/cache";
 import type { Observation } from "../../src/types/observation";
+import { getPhotoUrl, getSharePreviewPhoto } from "../../src/utils/photos";
+import { renderSharePage } from "../../server/utils/sharePage";
 
 const INAT_BASE_URL = "https://api.inaturalist.org/v1";
+const GBIF_BASE_URL = "https://api.gbif.org/v1";
 
 /**
  * Fetch a single iNaturalist observation by ID
@@ -12,7 +17,7 @@ async function fetchInatById(id: number): Promise<Observation | null> {
     const url = new URL(`${INAT_BASE_URL}/observations/${id}`);
     url.searchParams.set(
       "fields",
-      "id,observed_on_string,time_observed_at,location,place_guess,taxon,photos"
+      "id,observed_on_string,time_observed_at,location,place_guess,taxon,photos,user,quality_grade,identifications_count"
     );
 
     const response = await fetch(url.toString(), {
@@ -30,29 +35,53 @@ async function fetchInatById(id: number): Promise<Observation | null> {
 
     const data = await response.json();
     // Single observation endpoint returns the observation directly, not in results array
-    const observation = data.results?.[0] || data;
-    if (!observation.location) {
-      // Observation not georeferenced
-      return null;
+    // Null when malformed or not georeferenced
+    return normalizeInat(data.results?.[0] || data);
+  } catch (error) {
+    console.error("Error fetching iNaturalist observation:", error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a single GBIF occurrence by key
+ */
+async function fetchGbifById(key: number): Promise<Observation | null> {
+  try {
+    const response = await fetch(`${GBIF_BASE_URL}/occurrence/${key}`, {
+      headers: {
+        "Accept": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error(`GBIF API error: ${response.status} ${response.statusText}`);
     }
 
-    return normalizeInat(observation);
+    // Null when malformed or not georeferenced
+    return normalizeGbif(await response.json());
   } catch (error) {
-    console.error("Error fetching iNaturalist observation:", error);
+    console.error("Error fetching GBIF occurrence:", error);
     return null;
   }
 }
 
 /**
- * Fetch eBird observation by ID
- * Note: eBird doesn't have a direct endpoint for single observations.
- * For now, we return null - this would require location context to work properly.
+ * Fetch an eBird observation by checklist and species
  */
-async function fetchEbirdById(id: string): Promise<Observation | null> {
-  // eBird API doesn't support fetching a single observation by obsId directly
-  // This would require location context or a different approach
-  // For MVP, we'll return null and handle gracefully
-  return null;
+async function fetchEbirdById(
+  subId: string,
+  speciesCode: string
+): Promise<Observation | null> {
+  try {
+    return await fetchEbirdChecklistObservation(subId, speciesCode);
+  } catch (error) {
+    console.error("Error fetching eBird observation:", error);
+    return null;
+  }
 }
 
 export default async function handler(
@@ -80,41 +109,67 @@ export default async function handler(
     const provider = parts[0];
     const providerId = parts.slice(1).join("-"); // Handle IDs that might contain dashes
 
-    let observation: Observation | null = null;
+    // Serve from cache when possible
+    let observation: Observation | null = await getCached("share", id);
 
-    // Fetch observation based on provider
-    if (provider === "inat") {
-      const numericId = parseInt(providerId, 10);
-      if (isNaN(numericId)) {
-        return res.status(400).json({ error: "Invalid iNaturalist observation ID" });
+    if (!observation) {
+      // Fetch observation based on provider
+      if (provider === "inat") {
+        const numericId = parseInt(providerId, 10);
+        if (isNaN(numericId)) {
+          return res.status(400).json({ error: "Invalid iNaturalist observation ID" });
+        }
+        observation = await fetchInatById(numericId);
+      } else if (provider === "gbif") {
+        const numericKey = parseInt(providerId, 10);
+        if (isNaN(numericKey)) {
+          return res.status(400).json({ error: "Invalid GBIF occurrence ID" });
+        }
+        observation = await fetchGbifById(numericKey);
+      } else if (provider === "ebird") {
+        // Shared as "checklist-species", e.g. S123456789-amerob
+        const match = providerId.match(/^(S\d+)-([a-z0-9]+)$/i);
+        if (!match) {
+          return res.status(400).json({ error: "Invalid eBird share ID" });
+        }
+        observation = await fetchEbirdById(match[1], match[2]);
+      } else {
+        return res.status(400).json({ error: "Unknown provider" });
+      }
+
+      if (observation) {
+        await setCached("share", id, observation);
       }
-      observation = await fetchInatById(numericId);
-    } else if (provider === "ebird") {
-      // eBird observations can't be fetched directly by ID without location context
-      // For MVP, return error for eBird observations
-      return res.status(501).json({ 
-        error: "Sharing eBird observations is not yet supported",
-        message: "eBird API doesn't support fetching observations by ID directly"
-      });
-    } else {
-      return res.status(400).json({ error: "Unknown provider" });
     }
 
     if (!observation) {
       return res.status(404).json({ error: "Observation not found" });
     }
 
-    // Check if request wants JSON (from app) or redirect (from browser)
+    // Check if request wants JSON (from app) or a page (from browsers and link previews)
     const wantsJson = req.headers.accept?.includes("application/json") || 
                      req.query.format === "json";
 
+    // Link previews may only use openly licensed photos
+    const previewPhoto = getSharePreviewPhoto(observation);
+
     if (wantsJson) {
       // Return JSON for app requests
-      return res.status(200).json({ observation });
+      return res.status(200).json({
+        observation,
+        previewPhotoUrl: previewPhoto ? getPhotoUrl(previewPhoto) ?? null : null,
+      });
     } else {
-      // Redirect to deep link for browser requests
-      const deepLink = `animals-near-me://observation/${id}`;
-      return res.redirect(302, deepLink);
+      const protocol = (req.headers["x-forwarded-proto"] as string) || "https";
+      const html = renderSharePage(observation, {
+        pageUrl: `${protocol}://${req.headers.host}/api/share/${encodeURIComponent(id)}`,
+        deepLink: `animals-near-me://observation/${id}`,
+        previewPhoto,
+        installUrl: process.env.APP_INSTALL_URL || null,
+      });
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Cache-Control", "public, max-age=300");
+      return res.status(200).send(html);
     }
   } catch (error) {
     console.error("Error in share endpoint:", error);
@@ -0,0 +1,137 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getCached, setCached } from "../../server/utils/cache";
+import { searchInatTaxa } from "../../server/providers/inat";
+import {
+  fetchEbirdTaxonomy,
+  searchEbirdTaxonomy,
+} from "../../server/providers/ebird";
+import type { EbirdTaxon } from "../../server/providers/ebird";
+import type { TaxonSearchResult } from "../../src/types/taxa";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 30;
+const MIN_QUERY_LENGTH = 2;
+const EBIRD_TAXONOMY_CACHE_KEY = "ebird-taxonomy";
+
+/**
+ * Load the eBird taxonomy, fetching it at most once per cache TTL
+ */
+async function getEbirdTaxonomy(): Promise<EbirdTaxon[]> {
+  const cached = await getCached("taxa", EBIRD_TAXONOMY_CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  const taxonomy = await fetchEbirdTaxonomy();
+  await setCached("taxa", EBIRD_TAXONOMY_CACHE_KEY, taxonomy);
+  return taxonomy;
+}
+
+/**
+ * Combine iNaturalist and eBird results for the same species
+ * Matched by scientific name; iNaturalist order is kept, eBird-only species follow
+ */
+function mergeTaxaResults(
+  inatResults: TaxonSearchResult[],
+  ebirdResults: TaxonSearchResult[],
+  limit: number
+): TaxonSearchResult[] {
+  const merged = new Map<string, TaxonSearchResult>();
+
+  inatResults.forEach((result) => {
+    merged.set(result.scientificName.toLowerCase(), result);
+  });
+
+  ebirdResults.forEach((result) => {
+    const key = result.scientificName.toLowerCase();
+    const existing = merged.get(key);
+    if (existing) {
+      merged.set(key, {
+        ...existing,
+        commonName: existing.commonName || result.commonName,
+        ebirdSpeciesCode: result.ebirdSpeciesCode,
+      });
+    } else {
+      merged.set(key, result);
+    }
+  });
+
+  return Array.from(merged.values()).slice(0, limit);
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return res.status(400).json({
+        error: `Invalid parameters. Required: q (at least ${MIN_QUERY_LENGTH} characters)`,
+      });
+    }
+
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : DEFAULT_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return res.status(400).json({
+        error: `Invalid limit. Must be between 1 and ${MAX_LIMIT}`,
+      });
+    }
+
+    const cacheKey = `search:${query.toLowerCase()}|limit:${limit}`;
+    const cached = await getCached("taxa", cacheKey);
+    if (cached) {
+      return res.status(200).json(cached);
+    }
+
+    // Either source may fail; return what the other one found
+    const [inatResult, ebirdResult] = await Promise.allSettled([
+      searchInatTaxa(query, limit),
+      getEbirdTaxonomy().then((taxonomy) =>
+        searchEbirdTaxonomy(taxonomy, query, limit)
+      ),
+    ]);
+
+    if (inatResult.status === "rejected") {
+      console.error("Error searching iNaturalist taxa:", inatResult.reason);
+    }
+    if (ebirdResult.status === "rejected") {
+      console.error("Error searching eBird taxonomy:", ebirdResult.reason);
+    }
+    if (inatResult.status === "rejected" && ebirdResult.status === "rejected") {
+      throw new Error("All taxa sources failed");
+    }
+
+    const response = {
+      results: mergeTaxaResults(
+        inatResult.status === "fulfilled" ? inatResult.value.results : [],
+        ebirdResult.status === "fulfilled" ? ebirdResult.value : [],
+        limit
+      ),
+      diagnostics: {
+        dropped: inatResult.status === "fulfilled" ? inatResult.value.dropped : 0,
+      },
+    };
+
+    // Only cache complete results so a failed source is retried next time
+    if (inatResult.status === "fulfilled" && ebirdResult.status === "fulfilled") {
+      await setCached("taxa", cacheKey, response);
+    }
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error("Error in taxa search endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
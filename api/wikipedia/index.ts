@@ -1,51 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getCached, setCached } from "../../server/utils/cache";
+import { wikipediaSummarySchema } from "../../src/types/schemas";
 
 const WIKIPEDIA_API_BASE = "https://en.wikipedia.org/api/rest_v1";
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-
-interface WikipediaCacheEntry {
-  data: any;
-  timestamp: number;
-}
-
-const wikipediaCache = new Map<string, WikipediaCacheEntry>();
 
 function getWikipediaCacheKey(title: string): string {
-  return `wikipedia:${title.toLowerCase()}`;
-}
-
-function getCachedWikipedia(key: string): any | null {
-  const entry = wikipediaCache.get(key);
-  if (!entry) {
-    return null;
-  }
-
-  const age = Date.now() - entry.timestamp;
-  if (age > CACHE_TTL_MS) {
-    wikipediaCache.delete(key);
-    return null;
-  }
-
-  return entry.data;
-}
-
-function setCachedWikipedia(key: string, data: any): void {
-  wikipediaCache.set(key, {
-    data,
-    timestamp: Date.now(),
-  });
-
-  // Clean up old entries periodically
-  if (wikipediaCache.size > 100) {
-    const entries = Array.from(wikipediaCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-    
-    // Remove oldest 20 entries
-    for (let i = 0; i < 20 && i < entries.length; i++) {
-      wikipediaCache.delete(entries[i][0]);
-    }
-  }
+  return title.toLowerCase();
 }
 
 export default async function handler(
@@ -68,7 +28,7 @@ export default async function handler(
 
     // Check cache first
     const cacheKey = getWikipediaCacheKey(title);
-    const cached = getCachedWikipedia(cacheKey);
+    const cached = await getCached("wikipedia", cacheKey);
     
     if (cached) {
       return res.status(200).json(cached);
@@ -99,10 +59,14 @@ export default async function handler(
       throw new Error(`Wikipedia API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json();
+    const parsed = wikipediaSummarySchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected Wikipedia summary format");
+    }
+    const data = parsed.data;
 
     // Cache the successful response
-    setCachedWikipedia(cacheKey, data);
+    await setCached("wikipedia", cacheKey, data);
 
     return res.status(200).json(data);
   } catch (error) {
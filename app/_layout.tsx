@@ -1,6 +1,8 @@
 import { Stack } from "expo-router";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { StyleSheet } from "react-native";
+// Defines the background alert task, which has to exist before the app renders
+import "../src/utils/alertNotifications";
 
 export default function RootLayout() {
   return (
@@ -0,0 +1,32 @@
+import React from "react";
+import { Stack, useRouter } from "expo-router";
+import { LifeListScreen } from "../src/components/LifeListScreen";
+import { useObservationStore } from "../src/store/observationStore";
+import type { Observation } from "../src/types/observation";
+import { useTheme } from "../src/utils/theme";
+
+export default function LifeList() {
+  const router = useRouter();
+  const theme = useTheme();
+  const setSelectedObservation = useObservationStore((state) => state.setSelectedObservation);
+
+  // Show a starred observation on the map
+  const handleSelectObservation = (observation: Observation) => {
+    setSelectedObservation(observation);
+    router.back();
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: "Life List",
+          headerStyle: { backgroundColor: theme.background.card },
+          headerTintColor: theme.text.primary,
+        }}
+      />
+      <LifeListScreen onSelectObservation={handleSelectObservation} />
+    </>
+  );
+}
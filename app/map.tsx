@@ -0,0 +1,18 @@
+import { useEffect } from "react";
+import { useRouter } from "expo-router";
+
+/**
+ * Route for shared map view deep links
+ * This prevents "Unmatched route" errors when deep links are opened.
+ * Redirects to index, where MapScreen's deep link handler applies the
+ * shared filters and moves the map to the shared viewport.
+ */
+export default function MapViewRoute() {
+  const router = useRouter();
+
+  useEffect(() => {
+    router.replace("/");
+  }, [router]);
+
+  return null;
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ebirdProvider, fetchHistoricEbird } from "./ebird";
+import type { ProviderQuery } from "./registry";
+
+const CENTER = { lat: 37.77, lng: -122.42 };
+
+/**
+ * Stub eBird's hotspot and historic endpoints
+ * Hotspots report the given counties; each historic day returns one sighting
+ */
+function stubEbird(counties: string[]) {
+  const fetchMock = vi.fn(async (input: string) => {
+    const url = new URL(input);
+    if (url.pathname.endsWith("/ref/hotspot/geo")) {
+      return Response.json(
+        counties.map((county) => ({
+          subnational1Code: "US-CA",
+          subnational2Code: county,
+          latitude: CENTER.lat,
+          longitude: CENTER.lng,
+        }))
+      );
+    }
+
+    const match = url.pathname.match(/\/data\/obs\/([^/]+)\/historic\/(\d+)\/(\d+)\/(\d+)$/);
+    if (match) {
+      const [, region, year, month, day] = match;
+      const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+      return Response.json([
+        {
+          obsId: `OBS-${region}-${date}`,
+          subId: `S-${date}`,
+          lat: CENTER.lat + 0.01,
+          lng: CENTER.lng,
+          obsDt: `${date} 08:00`,
+          comName: "American Robin",
+          sciName: "Turdus migratorius",
+          speciesCode: "amerob",
+        },
+        // Outside the radius
+        {
+          obsId: `FAR-${region}-${date}`,
+          lat: CENTER.lat + 1,
+          lng: CENTER.lng,
+          obsDt: `${date} 08:00`,
+          speciesCode: "amerob",
+        },
+      ]);
+    }
+
+    return new Response("Not found", { status: 404, statusText: "Not Found" });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function historicCalls(fetchMock: ReturnType<typeof stubEbird>): number {
+  return fetchMock.mock.calls.filter(([url]) => url.includes("/historic/")).length;
+}
+
+beforeEach(() => {
+  vi.stubEnv("EBIRD_API_KEY", "test-key");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("fetchHistoricEbird", () => {
+  it("fetches each county and day, keeping sightings inside the radius", async () => {
+    const fetchMock = stubEbird(["US-CA-075", "US-CA-081"]);
+    const batch = await fetchHistoricEbird({
+      center: CENTER,
+      radiusKm: 10,
+      dateRange: { since: "2024-01-01", until: "2024-01-03" },
+    });
+
+    expect(historicCalls(fetchMock)).toBe(6);
+    expect(batch.dateRange).toEqual({ since: "2024-01-01", until: "2024-01-03" });
+    expect(batch.observations).toHaveLength(6);
+    expect(batch.observations.every((obs) => obs.id.startsWith("ebird-OBS-"))).toBe(true);
+  });
+
+  it("cuts long ranges to their latest days", async () => {
+    const fetchMock = stubEbird(["US-CA-075", "US-CA-081", "US-CA-001"]);
+    const batch = await fetchHistoricEbird({
+      center: CENTER,
+      radiusKm: 10,
+      dateRange: { since: "2024-01-01", until: "2024-02-29" },
+    });
+
+    // 30 requests split across 3 counties
+    expect(historicCalls(fetchMock)).toBe(30);
+    expect(batch.dateRange).toEqual({ since: "2024-02-20", until: "2024-02-29" });
+  });
+
+  it("filters to the requested species", async () => {
+    stubEbird(["US-CA-075"]);
+    const batch = await fetchHistoricEbird({
+      center: CENTER,
+      radiusKm: 10,
+      dateRange: { since: "2024-01-01", until: "2024-01-01" },
+      speciesCodes: ["stejay"],
+    });
+
+    expect(batch.observations).toEqual([]);
+  });
+});
+
+describe("ebirdProvider historic ranges", () => {
+  const query: ProviderQuery = {
+    bbox: { ne: { lat: 37.8, lng: -122.38 }, sw: { lat: 37.74, lng: -122.46 } },
+    centerRadius: { center: CENTER, radiusKm: 10 },
+    dateRange: { since: "2023-01-01", until: "2023-03-01" },
+    hasPhoto: null,
+    taxa: [],
+    taxonIds: [],
+    speciesCodes: [],
+    researchGradeOnly: false,
+    observer: null,
+    limit: 100,
+  };
+
+  it("reports a partial status instead of failing when the range is cut", async () => {
+    stubEbird(["US-CA-075", "US-CA-081", "US-CA-001"]);
+    const page = await ebirdProvider.fetchObservations(query);
+
+    expect(page.partial).toBe("eBird only covers 2023-02-20 to 2023-03-01 here");
+    expect(page.observations.length).toBeGreaterThan(0);
+    expect(page.nextCursor).toBeNull();
+  });
+});
@@ -1,80 +1,145 @@
 import type { CenterRadius } from "../utils/viewport";
-import { normalizeEbird } from "./normalize";
+import { distanceKm } from "../utils/viewport";
+import {
+  addDays,
+  datesInRange,
+  daysBetween,
+  isInDateRange,
+  toDateString,
+} from "../utils/dates";
+import type { DateRange } from "../utils/dates";
+import { normalizeAll, normalizeEbird, normalizeEbirdTaxon } from "./normalize";
+import type { NormalizedBatch } from "./normalize";
+import { ebirdChecklistSchema, ebirdHotspotSchema, ebirdTaxonSchema } from "./schemas";
+import { parseEach } from "../../src/types/schemas";
 import type { Observation } from "../../src/types/observation";
+import type { TaxonSearchResult } from "../../src/types/taxa";
+import type { ProviderImplementation } from "./registry";
 
 const EBIRD_BASE_URL = "https://api.ebird.org/v2";
 const MAX_RADIUS_KM = 50;
+const MAX_RESULTS_LIMIT = 10000; // eBird's maxResults ceiling
+const RECENT_MAX_DAYS = 30; // Recent endpoints' `back` limit; older ranges use historic
+const MAX_HISTORIC_REGIONS = 3;
+const MAX_HISTORIC_REQUESTS = 30; // Historic data is one request per region per day
 
 interface FetchEbirdOptions {
   center: { lat: number; lng: number };
   radiusKm: number;
   backDays?: number;
+  maxResults?: number; // Per request (or per tile when tiled)
+  speciesCodes?: string[]; // Only these species, one request each
+}
+
+/**
+ * Species entry from the eBird taxonomy, trimmed for caching
+ */
+export interface EbirdTaxon {
+  speciesCode: string;
+  comName: string;
+  sciName: string;
 }
 
 /**
  * Fetch recent eBird observations
  * Handles tiling when radius > 50km
+ * eBird has no paging, so results are capped by maxResults
  */
 export async function fetchRecentEbird(
   options: FetchEbirdOptions
-): Promise<Observation[]> {
-  const { center, radiusKm, backDays = 7 } = options;
+): Promise<NormalizedBatch> {
+  const {
+    center,
+    radiusKm,
+    backDays = 7,
+    maxResults = 100,
+    speciesCodes = [],
+  } = options;
   const apiKey = process.env.EBIRD_API_KEY;
 
   if (!apiKey) {
     throw new Error("EBIRD_API_KEY environment variable is required");
   }
 
-  // If radius is within limit, fetch directly
-  if (radiusKm <= MAX_RADIUS_KM) {
-    return await fetchEbirdSingle(center, radiusKm, backDays, apiKey);
-  }
+  // If radius is within limit, fetch directly; otherwise tile the viewport
+  const tiles =
+    radiusKm <= MAX_RADIUS_KM
+      ? [{ center, radiusKm }]
+      : createTiles(center, radiusKm).map((tileCenter) => ({
+          center: tileCenter,
+          radiusKm: MAX_RADIUS_KM,
+        }));
+
+  // eBird filters one species per request
+  const species: Array<string | undefined> =
+    speciesCodes.length > 0 ? speciesCodes : [undefined];
 
-  // Otherwise, tile the viewport
-  const tiles = createTiles(center, radiusKm);
   const results = await Promise.all(
-    tiles.map((tileCenter) =>
-      fetchEbirdSingle(tileCenter, MAX_RADIUS_KM, backDays, apiKey)
+    tiles.flatMap((tile) =>
+      species.map((speciesCode) =>
+        fetchEbirdSingle(
+          tile.center,
+          tile.radiusKm,
+          backDays,
+          maxResults,
+          apiKey,
+          speciesCode
+        )
+      )
     )
   );
 
-  // Flatten and return
-  return results.flat();
+  return mergeBatches(results);
 }
 
 /**
- * Fetch from a single center point
+ * Combine normalized batches from several requests
+ */
+function mergeBatches(batches: NormalizedBatch[]): NormalizedBatch {
+  return {
+    observations: batches.flatMap((batch) => batch.observations),
+    dropped: batches.reduce((sum, batch) => sum + batch.dropped, 0),
+  };
+}
+
+/**
+ * Fetch from a single center point, optionally for one species
  */
 async function fetchEbirdSingle(
   center: { lat: number; lng: number },
   radiusKm: number,
   backDays: number,
-  apiKey: string
-): Promise<Observation[]> {
-  const url = new URL(`${EBIRD_BASE_URL}/data/obs/geo/recent`);
+  maxResults: number,
+  apiKey: string,
+  speciesCode?: string
+): Promise<NormalizedBatch> {
+  const url = new URL(
+    speciesCode
+      ? `${EBIRD_BASE_URL}/data/obs/geo/recent/${encodeURIComponent(speciesCode)}`
+      : `${EBIRD_BASE_URL}/data/obs/geo/recent`
+  );
   url.searchParams.set("lat", center.lat.toString());
   url.searchParams.set("lng", center.lng.toString());
   url.searchParams.set("dist", Math.min(radiusKm, MAX_RADIUS_KM).toString());
-  url.searchParams.set("back", Math.min(backDays, 30).toString());
-  url.searchParams.set("maxResults", "100");
-
-  try {
-    const response = await fetch(url.toString(), {
-      headers: {
-        "x-ebirdapitoken": apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
-    }
+  url.searchParams.set("back", Math.min(backDays, RECENT_MAX_DAYS).toString());
+  url.searchParams.set("detail", "full"); // Includes the observer's name
+  url.searchParams.set(
+    "maxResults",
+    Math.min(maxResults, MAX_RESULTS_LIMIT).toString()
+  );
 
-    const data = await response.json();
-    return Array.isArray(data) ? data.map(normalizeEbird) : [];
-  } catch (error) {
-    console.error("Error fetching eBird data:", error);
-    return [];
+  const response = await fetch(url.toString(), {
+    headers: {
+      "x-ebirdapitoken": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
   }
+
+  const data = await response.json();
+  return normalizeAll(data, normalizeEbird);
 }
 
 /**
@@ -107,5 +172,371 @@ function createTiles(
   return tiles;
 }
 
+/**
+ * Historic observations and the days that could be fetched
+ */
+export interface HistoricBatch extends NormalizedBatch {
+  dateRange: DateRange;
+}
+
+interface FetchEbirdHistoricOptions {
+  center: { lat: number; lng: number };
+  radiusKm: number;
+  dateRange: DateRange;
+  maxResults?: number; // Per region per day
+  speciesCodes?: string[];
+}
+
+/**
+ * Fetch eBird observations for past dates
+ * eBird only serves historic data by region and day, so this finds the
+ * regions around the center, fetches each day, then keeps observations
+ * inside the radius. Historic results hold the latest sighting per species.
+ * Ranges longer than the request budget allows are cut to their latest days.
+ */
+export async function fetchHistoricEbird(
+  options: FetchEbirdHistoricOptions
+): Promise<HistoricBatch> {
+  const { center, radiusKm, dateRange, maxResults = 100, speciesCodes = [] } = options;
+  const apiKey = process.env.EBIRD_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("EBIRD_API_KEY environment variable is required");
+  }
+
+  const regions = await findEbirdRegions(center, radiusKm, apiKey);
+  if (regions.length === 0) {
+    return { observations: [], dropped: 0, dateRange };
+  }
+
+  const maxDays = Math.floor(MAX_HISTORIC_REQUESTS / regions.length);
+  const dayCount = daysBetween(dateRange.since, dateRange.until) + 1;
+  const servedRange: DateRange =
+    dayCount > maxDays
+      ? { since: addDays(dateRange.until, 1 - maxDays), until: dateRange.until }
+      : dateRange;
+
+  const results = await Promise.all(
+    regions.flatMap((regionCode) =>
+      datesInRange(servedRange).map((date) =>
+        fetchEbirdHistoricDay(regionCode, date, maxResults, apiKey)
+      )
+    )
+  );
+
+  const merged = mergeBatches(results);
+  return {
+    observations: merged.observations.filter(
+      (obs) =>
+        distanceKm(center.lat, center.lng, obs.lat, obs.lng) <= radiusKm &&
+        (speciesCodes.length === 0 ||
+          (obs.speciesCode !== undefined && speciesCodes.includes(obs.speciesCode)))
+    ),
+    dropped: merged.dropped,
+    dateRange: servedRange,
+  };
+}
+
+/**
+ * Find the eBird region codes (county, else state) around a point
+ * Based on the hotspots nearby, since eBird has no reverse geocoding
+ */
+async function findEbirdRegions(
+  center: { lat: number; lng: number },
+  radiusKm: number,
+  apiKey: string
+): Promise<string[]> {
+  const url = new URL(`${EBIRD_BASE_URL}/ref/hotspot/geo`);
+  url.searchParams.set("lat", center.lat.toString());
+  url.searchParams.set("lng", center.lng.toString());
+  url.searchParams.set("dist", Math.min(radiusKm, MAX_RADIUS_KM).toString());
+  url.searchParams.set("fmt", "json");
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "x-ebirdapitoken": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  // Malformed hotspots only leave their region out
+  const hotspots = parseEach(ebirdHotspotSchema, data).valid;
+
+  const counties = new Set<string>();
+  const states = new Set<string>();
+  hotspots.forEach((hotspot) => {
+    const state = hotspot.subnational1Code || hotspot.countryCode;
+    const county = hotspot.subnational2Code || state;
+    if (state) states.add(state);
+    if (county) counties.add(county);
+  });
+
+  // Prefer counties for smaller responses; fall back to states for wide areas
+  const regions = counties.size <= MAX_HISTORIC_REGIONS ? counties : states;
+  return Array.from(regions).slice(0, MAX_HISTORIC_REGIONS);
+}
+
+// In-flight historic requests, shared by tiles that cover the same region
+const historicRequests = new Map<string, Promise<NormalizedBatch>>();
+
+/**
+ * Fetch observations reported in a region on one day
+ * Concurrent calls for the same region, day and limit share one request
+ */
+function fetchEbirdHistoricDay(
+  regionCode: string,
+  date: string,
+  maxResults: number,
+  apiKey: string
+): Promise<NormalizedBatch> {
+  const key = `${regionCode}|${date}|${maxResults}`;
+  let request = historicRequests.get(key);
+  if (!request) {
+    request = requestEbirdHistoricDay(regionCode, date, maxResults, apiKey).finally(
+      () => historicRequests.delete(key)
+    );
+    historicRequests.set(key, request);
+  }
+  return request;
+}
+
+async function requestEbirdHistoricDay(
+  regionCode: string,
+  date: string,
+  maxResults: number,
+  apiKey: string
+): Promise<NormalizedBatch> {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  const url = new URL(
+    `${EBIRD_BASE_URL}/data/obs/${encodeURIComponent(regionCode)}/historic/${year}/${month}/${day}`
+  );
+  url.searchParams.set("rank", "mrec");
+  url.searchParams.set("detail", "full");
+  url.searchParams.set(
+    "maxResults",
+    Math.min(maxResults, MAX_RESULTS_LIMIT).toString()
+  );
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "x-ebirdapitoken": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return normalizeAll(data, normalizeEbird);
+}
+
+/**
+ * GET an eBird API path, returning null for 404 and missing records
+ */
+async function fetchEbirdJson(path: string, apiKey: string): Promise<unknown | null> {
+  const url = new URL(`${EBIRD_BASE_URL}${path}`);
+  url.searchParams.set("fmt", "json");
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "x-ebirdapitoken": apiKey,
+    },
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Rebuild one observation from the checklist it was reported on
+ * eBird can't look up an observation by ID, so shared links name the
+ * checklist and species instead. Returns null when the checklist doesn't
+ * list the species or its location can't be found.
+ */
+export async function fetchEbirdChecklistObservation(
+  subId: string,
+  speciesCode: string
+): Promise<Observation | null> {
+  const apiKey = process.env.EBIRD_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("EBIRD_API_KEY environment variable is required");
+  }
+
+  const checklist = ebirdChecklistSchema.safeParse(
+    await fetchEbirdJson(`/product/checklist/view/${encodeURIComponent(subId)}`, apiKey)
+  );
+  if (!checklist.success) {
+    return null;
+  }
+  const { data } = checklist;
+  const entry = data.obs.find((obs) => obs.speciesCode === speciesCode);
+  if (!entry) {
+    return null;
+  }
+
+  // Checklists at personal locations only have coordinates inline;
+  // hotspot coordinates can be looked up by location ID
+  let location: { name?: string; latitude: number; longitude: number } | null = null;
+  if (data.loc?.latitude !== undefined && data.loc?.longitude !== undefined) {
+    location = { name: data.loc.name, latitude: data.loc.latitude, longitude: data.loc.longitude };
+  } else {
+    const hotspot = ebirdHotspotSchema.safeParse(
+      await fetchEbirdJson(`/ref/hotspot/info/${encodeURIComponent(data.locId)}`, apiKey)
+    );
+    location = hotspot.success ? hotspot.data : null;
+  }
+  if (!location) {
+    return null;
+  }
+
+  const taxonomy = await fetchEbirdJson(
+    `/ref/taxonomy/ebird?species=${encodeURIComponent(speciesCode)}`,
+    apiKey
+  );
+  const taxon = Array.isArray(taxonomy) ? ebirdTaxonSchema.safeParse(taxonomy[0]) : null;
+
+  const howMany = entry.howManyStr ? parseInt(entry.howManyStr, 10) : NaN;
+
+  // Same shape as the recent observations endpoint
+  return normalizeEbird({
+    ...entry,
+    subId: data.subId,
+    lat: location.latitude,
+    lng: location.longitude,
+    locName: location.name,
+    obsDt: data.obsDt,
+    userDisplayName: data.userDisplayName,
+    comName: taxon?.success ? taxon.data.comName : undefined,
+    sciName: taxon?.success ? taxon.data.sciName : undefined,
+    howMany: isNaN(howMany) ? undefined : howMany,
+  });
+}
+
+/**
+ * Fetch every species in the eBird taxonomy
+ * Large (~11k entries), so callers should cache the result
+ */
+export async function fetchEbirdTaxonomy(): Promise<EbirdTaxon[]> {
+  const apiKey = process.env.EBIRD_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("EBIRD_API_KEY environment variable is required");
+  }
+
+  const url = new URL(`${EBIRD_BASE_URL}/ref/taxonomy/ebird`);
+  url.searchParams.set("fmt", "json");
+  url.searchParams.set("cat", "species");
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "x-ebirdapitoken": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBird API error: ${response.status} ${response.statusText}`);
+  }
 
+  const data = await response.json();
+  if (!Array.isArray(data)) {
+    throw new Error("Unexpected eBird taxonomy response format");
+  }
+
+  const { valid, dropped } = parseEach(ebirdTaxonSchema, data);
+  if (dropped > 0) {
+    console.warn(`Dropped ${dropped} malformed eBird taxonomy entries`);
+  }
+  return valid.map((entry) => ({
+    speciesCode: entry.speciesCode,
+    comName: entry.comName,
+    sciName: entry.sciName,
+  }));
+}
+
+/**
+ * Match species in the eBird taxonomy by common or scientific name
+ * Prefix matches rank ahead of matches inside a word
+ */
+export function searchEbirdTaxonomy(
+  taxonomy: EbirdTaxon[],
+  query: string,
+  limit: number
+): TaxonSearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  const score = (name: string): number => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith(needle)) return 0;
+    if (lower.split(/[\s-]+/).some((word) => word.startsWith(needle))) return 1;
+    if (lower.includes(needle)) return 2;
+    return Infinity;
+  };
+
+  return taxonomy
+    .map((taxon) => ({
+      taxon,
+      score: Math.min(score(taxon.comName), score(taxon.sciName)),
+    }))
+    .filter((match) => match.score !== Infinity)
+    .sort(
+      (a, b) =>
+        a.score - b.score || a.taxon.comName.length - b.taxon.comName.length
+    )
+    .slice(0, limit)
+    .map((match) => normalizeEbirdTaxon(match.taxon));
+}
+
+export const ebirdProvider: ProviderImplementation = {
+  fetchObservations: async (query) => {
+    const backDays = daysBetween(query.dateRange.since, toDateString(new Date()));
+    const options = {
+      center: query.centerRadius.center,
+      radiusKm: query.centerRadius.radiusKm,
+      maxResults: query.limit,
+      speciesCodes: query.speciesCodes,
+    };
+
+    // Recent endpoints count back from today, so trim to the requested range
+    if (backDays <= RECENT_MAX_DAYS) {
+      const batch = await fetchRecentEbird({ ...options, backDays: Math.max(1, backDays) });
+      return {
+        observations: batch.observations.filter((obs) =>
+          isInDateRange(obs.observedAt, query.dateRange)
+        ),
+        nextCursor: null,
+        dropped: batch.dropped,
+      };
+    }
 
+    // Long historic ranges only cover their latest days
+    const batch = await fetchHistoricEbird({ ...options, dateRange: query.dateRange });
+    return {
+      observations: batch.observations.filter((obs) =>
+        isInDateRange(obs.observedAt, batch.dateRange)
+      ),
+      nextCursor: null,
+      dropped: batch.dropped,
+      ...(batch.dateRange.since !== query.dateRange.since && {
+        partial: `eBird only covers ${batch.dateRange.since} to ${batch.dateRange.until} here`,
+      }),
+    };
+  },
+};
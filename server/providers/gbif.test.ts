@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import fixture from "./__fixtures__/gbif-occurrence-search.json";
+import { buildGbifUrl, parseGbifResponse } from "./gbif";
+
+describe("parseGbifResponse", () => {
+  const { observations, dropped } = parseGbifResponse(fixture);
+
+  it("drops records without a usable location", () => {
+    // One has no coordinates, one is at 0,0
+    expect(observations.map((obs) => obs.id)).toEqual([
+      "gbif-4507762211",
+      "gbif-4511283349",
+      "gbif-4520014562",
+    ]);
+    expect(dropped).toBe(2);
+  });
+
+  it("normalizes names, place, date, taxa and observer", () => {
+    expect(observations[0]).toMatchObject({
+      provider: "gbif",
+      lat: 37.769421,
+      lng: -122.486214,
+      observedAt: new Date("2024-05-12T08:30:00").toISOString(),
+      placeGuess: "Golden Gate Park, San Francisco",
+      commonName: "California Scrub-Jay",
+      scientificName: "Aphelocoma californica",
+      taxaBucket: "Bird",
+      observer: { name: "Jane Doe" },
+      detailUrl: "https://www.gbif.org/occurrence/4507762211",
+    });
+  });
+
+  it("uses the start of date intervals and falls back to verbatim locality", () => {
+    expect(observations[1]).toMatchObject({
+      observedAt: new Date("2024-05-10").toISOString(),
+      placeGuess: "Mount Sutro",
+      commonName: "Pseudacris sierra", // No vernacular name
+      taxaBucket: "Amphibian",
+    });
+  });
+
+  it("keeps still images with their credit and license", () => {
+    const photoUrl =
+      "https://inaturalist-open-data.s3.amazonaws.com/photos/348811203/original.jpg";
+    expect(observations[0].photos).toEqual([
+      {
+        urls: { original: photoUrl },
+        attribution: "© Jane Doe",
+        licenseCode: "cc-by-nc",
+      },
+    ]);
+    expect(observations[0].photoUrl).toBe(photoUrl);
+
+    expect(observations[1].photos).toEqual([
+      {
+        urls: {
+          original: "https://api.gbif.org/v1/image/cache/occurrence/4511283349/media/a1b2c3",
+        },
+        attribution: "© R. Smith",
+        licenseCode: "cc0",
+      },
+    ]);
+  });
+
+  it("leaves the license out when it isn't a Creative Commons URL", () => {
+    expect(observations[2].photos).toEqual([
+      {
+        urls: { original: "https://example.org/images/squirrel.jpg" },
+        attribution: "© Example Museum",
+        licenseCode: undefined,
+      },
+    ]);
+  });
+
+  it("counts every record received, including dropped ones", () => {
+    expect(parseGbifResponse(fixture)).toMatchObject({ received: 5, endOfRecords: false });
+  });
+
+  it("handles responses without results", () => {
+    const empty = { observations: [], dropped: 0, received: 0, endOfRecords: true };
+    expect(parseGbifResponse({})).toEqual(empty);
+    expect(parseGbifResponse(null)).toEqual(empty);
+  });
+});
+
+describe("buildGbifUrl", () => {
+  it("queries the bounding box, date range and photo filter", () => {
+    const url = buildGbifUrl({
+      bbox: { sw: { lat: 37.7, lng: -122.5 }, ne: { lat: 37.8, lng: -122.4 } },
+      dateRange: { since: "2024-05-01", until: "2024-05-14" },
+      hasPhotos: true,
+      limit: 1000,
+    });
+
+    expect(url.searchParams.get("decimalLatitude")).toBe("37.7,37.8");
+    expect(url.searchParams.get("decimalLongitude")).toBe("-122.5,-122.4");
+    expect(url.searchParams.get("eventDate")).toBe("2024-05-01,2024-05-14");
+    expect(url.searchParams.get("mediaType")).toBe("StillImage");
+    expect(url.searchParams.get("limit")).toBe("300"); // GBIF page size cap
+  });
+});
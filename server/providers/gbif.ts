@@ -0,0 +1,155 @@
+import type { BoundingBox } from "../utils/viewport";
+import type { DateRange } from "../utils/dates";
+import { normalizeAll, normalizeGbif } from "./normalize";
+import type { NormalizedBatch } from "./normalize";
+import { gbifResponseSchema } from "./schemas";
+import type { Observation } from "../../src/types/observation";
+import type { ProviderImplementation } from "./registry";
+
+const GBIF_BASE_URL = "https://api.gbif.org/v1";
+const GBIF_MAX_PAGE_SIZE = 300;
+const GBIF_MAX_UPSTREAM_PAGES = 5; // Bounds latency of a single request
+
+interface FetchGbifOptions {
+  bbox: BoundingBox;
+  dateRange: DateRange;
+  hasPhotos?: boolean; // true = has photos, undefined = all
+  recordedBy?: string; // Only this observer's records
+  limit?: number;
+  offset?: number;
+}
+
+export interface GbifPage {
+  observations: Observation[];
+  nextOffset: number | null; // null = end of records
+  dropped: number; // Malformed records skipped
+}
+
+export interface GbifBatch extends NormalizedBatch {
+  received: number; // Records in the response, including dropped ones
+  endOfRecords: boolean;
+}
+
+/**
+ * Build the GBIF occurrence search URL for a bounding box
+ */
+export function buildGbifUrl(options: FetchGbifOptions): URL {
+  const { bbox, dateRange, hasPhotos, recordedBy, limit = 100, offset = 0 } = options;
+
+  const url = new URL(`${GBIF_BASE_URL}/occurrence/search`);
+  url.searchParams.set("decimalLatitude", `${bbox.sw.lat},${bbox.ne.lat}`);
+  url.searchParams.set("decimalLongitude", `${bbox.sw.lng},${bbox.ne.lng}`);
+  url.searchParams.set("hasCoordinate", "true");
+  url.searchParams.set("hasGeospatialIssue", "false");
+  url.searchParams.set("occurrenceStatus", "PRESENT");
+  url.searchParams.set("limit", Math.min(limit, GBIF_MAX_PAGE_SIZE).toString());
+  url.searchParams.set("offset", offset.toString());
+
+  // GBIF only supports filtering for presence of media, not absence
+  if (hasPhotos === true) {
+    url.searchParams.set("mediaType", "StillImage");
+  }
+
+  if (recordedBy) {
+    url.searchParams.set("recordedBy", recordedBy);
+  }
+
+  // Date filter (eventDate range, inclusive)
+  url.searchParams.set("eventDate", `${dateRange.since},${dateRange.until}`);
+
+  return url;
+}
+
+/**
+ * Convert a GBIF occurrence search response to observations
+ * Kept separate from the fetch so it can run against recorded responses
+ */
+export function parseGbifResponse(data: unknown): GbifBatch {
+  const parsed = gbifResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    return { observations: [], dropped: 0, received: 0, endOfRecords: true };
+  }
+
+  const { results, endOfRecords } = parsed.data;
+  return {
+    ...normalizeAll(results, normalizeGbif),
+    received: results.length,
+    endOfRecords: endOfRecords !== false,
+  };
+}
+
+/**
+ * Fetch GBIF occurrences within a bounding box
+ * Follows upstream pages by offset until `limit` is reached
+ */
+export async function fetchGbif(
+  options: FetchGbifOptions
+): Promise<GbifPage> {
+  const { limit = 100 } = options;
+  const observations: Observation[] = [];
+  let dropped = 0;
+  let offset = options.offset ?? 0;
+  let endOfRecords = false;
+
+  for (
+    let page = 0;
+    page < GBIF_MAX_UPSTREAM_PAGES && observations.length < limit;
+    page++
+  ) {
+    const url = buildGbifUrl({
+      ...options,
+      limit: limit - observations.length,
+      offset,
+    });
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        "Accept": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GBIF API error: ${response.status} ${response.statusText}`);
+    }
+
+    const batch = parseGbifResponse(await response.json());
+    observations.push(...batch.observations);
+    dropped += batch.dropped;
+
+    offset += batch.received;
+    if (batch.endOfRecords) {
+      endOfRecords = true;
+      break;
+    }
+  }
+
+  return {
+    observations,
+    nextOffset: endOfRecords ? null : offset,
+    dropped,
+  };
+}
+
+export const gbifProvider: ProviderImplementation = {
+  fetchObservations: async (query) => {
+    const offset = query.cursor ? parseInt(query.cursor, 10) : undefined;
+    if (offset !== undefined && isNaN(offset)) {
+      throw new Error("Invalid GBIF cursor");
+    }
+
+    const page = await fetchGbif({
+      bbox: query.bbox,
+      dateRange: query.dateRange,
+      hasPhotos: query.hasPhoto === true ? true : undefined,
+      recordedBy: query.observer ?? undefined,
+      limit: query.limit,
+      offset,
+    });
+
+    return {
+      observations: page.observations,
+      nextCursor: page.nextOffset !== null ? page.nextOffset.toString() : null,
+      dropped: page.dropped,
+    };
+  },
+};
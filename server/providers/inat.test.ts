@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchInatSpeciesCounts, inatProvider, searchInatTaxa } from "./inat";
+import type { ProviderQuery } from "./registry";
+
+const BBOX = { ne: { lat: 37.8, lng: -122.38 }, sw: { lat: 37.74, lng: -122.46 } };
+
+const ROBIN = {
+  id: 12727,
+  name: "Turdus migratorius",
+  preferred_common_name: "American Robin",
+  iconic_taxon_name: "Aves",
+  default_photo: { square_url: "https://example.org/robin.jpg" },
+};
+
+/**
+ * Stub fetch to answer every request with the given JSON body
+ */
+function stubResponse(body: unknown) {
+  const fetchMock = vi.fn(async (_input: string) => Response.json(body));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchInatSpeciesCounts", () => {
+  it("counts species and drops malformed results", async () => {
+    stubResponse({
+      results: [
+        { count: 12, taxon: ROBIN },
+        { count: 3, taxon: { id: 1 } }, // No name
+        { taxon: ROBIN }, // No count
+      ],
+    });
+
+    const { species, dropped } = await fetchInatSpeciesCounts({
+      bbox: BBOX,
+      months: [5],
+      year: 2023,
+    });
+
+    expect(species).toEqual([
+      {
+        commonName: "American Robin",
+        scientificName: "Turdus migratorius",
+        taxaBucket: "Bird",
+        count: 12,
+        inatTaxonId: 12727,
+      },
+    ]);
+    expect(dropped).toBe(2);
+  });
+
+  it("rejects responses without results", async () => {
+    stubResponse({ error: "Unavailable" });
+
+    await expect(
+      fetchInatSpeciesCounts({ bbox: BBOX, months: [5], year: 2023 })
+    ).rejects.toThrow(/Unexpected iNaturalist species counts response format/);
+  });
+});
+
+describe("searchInatTaxa", () => {
+  it("normalizes taxa and drops malformed results", async () => {
+    stubResponse({ results: [ROBIN, { name: "No id" }, null] });
+
+    const { results, dropped } = await searchInatTaxa("robin", 10);
+
+    expect(results).toEqual([
+      {
+        id: "inat-12727",
+        commonName: "American Robin",
+        scientificName: "Turdus migratorius",
+        taxaBucket: "Bird",
+        photoUrl: "https://example.org/robin.jpg",
+        inatTaxonId: 12727,
+      },
+    ]);
+    expect(dropped).toBe(2);
+  });
+});
+
+describe("inatProvider observer filter", () => {
+  const query: ProviderQuery = {
+    bbox: BBOX,
+    centerRadius: { center: { lat: 37.77, lng: -122.42 }, radiusKm: 5 },
+    dateRange: { since: "2024-05-01", until: "2024-05-12" },
+    hasPhoto: null,
+    taxa: [],
+    taxonIds: [],
+    speciesCodes: [],
+    researchGradeOnly: false,
+    observer: null,
+    limit: 10,
+  };
+
+  const observation = (id: number, user: { login: string; name?: string }) => ({
+    id,
+    location: "37.77,-122.42",
+    observed_on_string: "2024-05-10",
+    taxon: ROBIN,
+    user,
+  });
+
+  const results = [
+    observation(3, { login: "jdoe", name: "Jane" }),
+    observation(2, { login: "jane" }),
+    observation(1, { login: "someone", name: "Someone Else" }),
+  ];
+
+  it("matches a single-word name locally instead of querying it as a username", async () => {
+    const fetchMock = stubResponse({ results });
+    const page = await inatProvider.fetchObservations({ ...query, observer: "Jane" });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.has("user_login")).toBe(false);
+    expect(page.observations.map((obs) => obs.id)).toEqual(["inat-3", "inat-2"]);
+  });
+
+  it("queries an explicit @username upstream and matches only usernames", async () => {
+    const fetchMock = stubResponse({ results });
+    const page = await inatProvider.fetchObservations({ ...query, observer: "@jane" });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get("user_login")).toBe("jane");
+    expect(page.observations.map((obs) => obs.id)).toEqual(["inat-2"]);
+  });
+});
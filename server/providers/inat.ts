@@ -1,25 +1,73 @@
 import type { BoundingBox } from "../utils/viewport";
-import { normalizeInat } from "./normalize";
+import type { DateRange } from "../utils/dates";
+import type { SpeciesCount } from "../utils/seasonal";
+import { normalizeAll, normalizeInat, normalizeInatTaxon } from "./normalize";
+import {
+  inatObservationsResponseSchema,
+  inatResultsResponseSchema,
+  inatSpeciesCountSchema,
+} from "./schemas";
+import { parseEach } from "../../src/types/schemas";
 import type { Observation } from "../../src/types/observation";
+import { getObserverLogin, matchesObserver } from "../../src/types/filters";
+import type { TaxonSearchResult } from "../../src/types/taxa";
+import type { ProviderImplementation } from "./registry";
 
 const INAT_BASE_URL = "https://api.inaturalist.org/v1";
+const INAT_MAX_PER_PAGE = 200;
+const INAT_MAX_UPSTREAM_PAGES = 5; // Bounds latency of a single request
 
 interface FetchInatOptions {
   bbox?: BoundingBox;
   center?: { lat: number; lng: number };
   radiusKm?: number;
-  recentDays?: number;
+  dateRange?: DateRange;
+  season?: { months: number[]; years: number[] }; // Instead of dateRange
   hasPhotos?: boolean; // true = has photos, false = no photos, undefined = all
+  taxonIds?: number[]; // Includes descendant taxa
+  researchGradeOnly?: boolean; // Otherwise research and needs_id
+  userLogin?: string; // Only this observer's observations
+  limit?: number;
+  idBelow?: number; // Resume below this observation ID
+}
+
+export interface InatPage {
+  observations: Observation[];
+  nextIdBelow: number | null; // null = no more results
+  dropped: number; // Malformed records skipped
+}
+
+export interface InatSpeciesCounts {
+  species: SpeciesCount[];
+  dropped: number; // Malformed records skipped
+}
+
+export interface InatTaxaResults {
+  results: TaxonSearchResult[];
+  dropped: number; // Malformed records skipped
 }
 
 /**
  * Fetch iNaturalist observations
  * Prefers bounding box query, falls back to center+radius
+ * Follows upstream pages by descending ID until `limit` is reached
  */
 export async function fetchInat(
   options: FetchInatOptions
-): Promise<Observation[]> {
-  const { bbox, center, radiusKm, recentDays = 14, hasPhotos } = options;
+): Promise<InatPage> {
+  const {
+    bbox,
+    center,
+    radiusKm,
+    dateRange,
+    season,
+    hasPhotos,
+    taxonIds,
+    researchGradeOnly = false,
+    userLogin,
+    limit = 100,
+    idBelow,
+  } = options;
 
   const url = new URL(`${INAT_BASE_URL}/observations`);
 
@@ -43,26 +91,56 @@ export async function fetchInat(
   }
 
   // Filter parameters
-  url.searchParams.set("per_page", "100");
-  url.searchParams.set("quality_grade", "research,needs_id");
+  url.searchParams.set("quality_grade", researchGradeOnly ? "research" : "research,needs_id");
+  if (userLogin) {
+    url.searchParams.set("user_login", userLogin);
+  }
   // Only set has_photos if explicitly provided (true or false)
   if (hasPhotos !== undefined) {
     url.searchParams.set("has_photos", hasPhotos ? "true" : "false");
   }
   url.searchParams.set("geoprivacy", "open");
+  if (taxonIds && taxonIds.length > 0) {
+    url.searchParams.set("taxon_id", taxonIds.join(","));
+  }
   
-  // Date filter (recent observations)
-  const sinceDate = new Date();
-  sinceDate.setDate(sinceDate.getDate() - recentDays);
-  url.searchParams.set("d1", sinceDate.toISOString().split("T")[0]);
+  // Date filter: observed-on range, or calendar months across years
+  if (season) {
+    url.searchParams.set("month", season.months.join(","));
+    url.searchParams.set("year", season.years.join(","));
+  } else if (dateRange) {
+    url.searchParams.set("d1", dateRange.since);
+    url.searchParams.set("d2", dateRange.until);
+  } else {
+    throw new Error("Either dateRange or season must be provided");
+  }
 
   // Request specific fields
   url.searchParams.set(
     "fields",
-    "id,observed_on_string,time_observed_at,location,place_guess,taxon,photos"
+    "id,observed_on_string,time_observed_at,location,place_guess,taxon,photos,user,quality_grade,identifications_count"
   );
 
-  try {
+  // Page by descending ID so the newest observations come first
+  url.searchParams.set("order_by", "id");
+  url.searchParams.set("order", "desc");
+
+  const observations: Observation[] = [];
+  let dropped = 0;
+  let nextIdBelow = idBelow;
+  let exhausted = false;
+
+  for (
+    let page = 0;
+    page < INAT_MAX_UPSTREAM_PAGES && observations.length < limit;
+    page++
+  ) {
+    const perPage = Math.min(limit - observations.length, INAT_MAX_PER_PAGE);
+    url.searchParams.set("per_page", perPage.toString());
+    if (nextIdBelow !== undefined) {
+      url.searchParams.set("id_below", nextIdBelow.toString());
+    }
+
     const response = await fetch(url.toString(), {
       headers: {
         "Accept": "application/json",
@@ -73,16 +151,151 @@ export async function fetchInat(
       throw new Error(`iNaturalist API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json();
-    const observations = data.results || [];
-    
-    return observations
-      .filter((obs: any) => obs.location) // Only georeferenced
-      .map(normalizeInat);
-  } catch (error) {
-    console.error("Error fetching iNaturalist data:", error);
-    return [];
+    const parsed = inatObservationsResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected iNaturalist observations response format");
+    }
+    const results = parsed.data.results;
+
+    // Records without a usable location are dropped rather than placed at 0,0
+    const batch = normalizeAll(results, normalizeInat);
+    observations.push(...batch.observations);
+    dropped += batch.dropped;
+
+    if (results.length < perPage) {
+      exhausted = true;
+      break;
+    }
+    nextIdBelow = results[results.length - 1].id;
+  }
+
+  return {
+    observations,
+    nextIdBelow: exhausted || nextIdBelow === undefined ? null : nextIdBelow,
+    dropped,
+  };
+}
+
+/**
+ * Count iNaturalist observations per species in a bounding box
+ * for calendar months of one year
+ */
+export async function fetchInatSpeciesCounts(options: {
+  bbox: BoundingBox;
+  months: number[];
+  year: number;
+  limit?: number;
+}): Promise<InatSpeciesCounts> {
+  const { bbox, months, year, limit = 500 } = options;
+
+  const url = new URL(`${INAT_BASE_URL}/observations/species_counts`);
+  url.searchParams.set("nelat", bbox.ne.lat.toString());
+  url.searchParams.set("nelng", bbox.ne.lng.toString());
+  url.searchParams.set("swlat", bbox.sw.lat.toString());
+  url.searchParams.set("swlng", bbox.sw.lng.toString());
+  url.searchParams.set("month", months.join(","));
+  url.searchParams.set("year", year.toString());
+  url.searchParams.set("quality_grade", "research,needs_id");
+  url.searchParams.set("geoprivacy", "open");
+  url.searchParams.set("per_page", Math.min(limit, 500).toString());
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "Accept": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`iNaturalist API error: ${response.status} ${response.statusText}`);
+  }
+
+  const parsed = inatResultsResponseSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error("Unexpected iNaturalist species counts response format");
+  }
+
+  const { valid, dropped } = parseEach(inatSpeciesCountSchema, parsed.data.results);
+  const species: SpeciesCount[] = [];
+  valid.forEach((result) => {
+    const taxon = normalizeInatTaxon(result.taxon);
+    if (taxon) {
+      species.push({
+        commonName: taxon.commonName,
+        scientificName: taxon.scientificName,
+        taxaBucket: taxon.taxaBucket,
+        count: result.count,
+        inatTaxonId: taxon.inatTaxonId,
+      });
+    }
+  });
+  return { species, dropped: dropped + valid.length - species.length };
+}
+
+/**
+ * Autocomplete iNaturalist species by common or scientific name
+ */
+export async function searchInatTaxa(
+  query: string,
+  limit: number
+): Promise<InatTaxaResults> {
+  const url = new URL(`${INAT_BASE_URL}/taxa/autocomplete`);
+  url.searchParams.set("q", query);
+  url.searchParams.set("rank", "species");
+  url.searchParams.set("is_active", "true");
+  url.searchParams.set("per_page", limit.toString());
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      "Accept": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`iNaturalist API error: ${response.status} ${response.statusText}`);
+  }
+
+  const parsed = inatResultsResponseSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error("Unexpected iNaturalist taxa response format");
   }
+
+  const results: TaxonSearchResult[] = [];
+  parsed.data.results.forEach((record) => {
+    const taxon = normalizeInatTaxon(record);
+    if (taxon) {
+      results.push(taxon);
+    }
+  });
+  return { results, dropped: parsed.data.results.length - results.length };
 }
 
+export const inatProvider: ProviderImplementation = {
+  fetchObservations: async (query) => {
+    const idBelow = query.cursor ? parseInt(query.cursor, 10) : undefined;
+    if (idBelow !== undefined && isNaN(idBelow)) {
+      throw new Error("Invalid iNaturalist cursor");
+    }
+
+    const page = await fetchInat({
+      bbox: query.bbox,
+      center: query.centerRadius.center,
+      radiusKm: query.centerRadius.radiusKm,
+      dateRange: query.dateRange,
+      hasPhotos: query.hasPhoto === null ? undefined : query.hasPhoto,
+      taxonIds: query.taxonIds,
+      researchGradeOnly: query.researchGradeOnly,
+      // Only an explicit "@username" is sent upstream; a single-word display
+      // name would otherwise be taken as a username and match nothing
+      userLogin: getObserverLogin(query.observer) ?? undefined,
+      limit: query.limit,
+      idBelow,
+    });
 
+    // Display names can't be queried upstream, so match them here
+    return {
+      observations: page.observations.filter((obs) => matchesObserver(obs, query.observer)),
+      nextCursor: page.nextIdBelow !== null ? page.nextIdBelow.toString() : null,
+      dropped: page.dropped,
+    };
+  },
+};
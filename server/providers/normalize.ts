@@ -1,9 +1,27 @@
-import type { Observation, Provider, TaxaBucket } from "../../src/types/observation";
+import type {
+  Observation,
+  ObservationPhoto,
+  PhotoSize,
+  Provider,
+  TaxaBucket,
+} from "../../src/types/observation";
+import type { TaxonSearchResult } from "../../src/types/taxa";
+import { coordinatesSchema } from "../../src/types/schemas";
+import {
+  ebirdObservationSchema,
+  gbifOccurrenceSchema,
+  inatObservationSchema,
+  inatTaxonResultSchema,
+} from "./schemas";
+import type { GbifOccurrenceRecord, InatObservationRecord } from "./schemas";
+import type { EbirdTaxon } from "./ebird";
+
+const INAT_PHOTO_SIZES: PhotoSize[] = ["square", "small", "medium", "large", "original"];
 
 /**
  * Map iNaturalist iconic_taxon_name to TaxaBucket
  */
-function mapInatTaxa(iconicTaxonName?: string): TaxaBucket {
+export function mapInatTaxa(iconicTaxonName?: string): TaxaBucket {
   if (!iconicTaxonName) return "Other";
   
   const mapping: Record<string, TaxaBucket> = {
@@ -22,14 +40,134 @@ function mapInatTaxa(iconicTaxonName?: string): TaxaBucket {
   return mapping[iconicTaxonName] || "Other";
 }
 
+/**
+ * Map GBIF backbone classification to TaxaBucket
+ * Checks class first, then phylum and kingdom for groups without a single class
+ */
+function mapGbifTaxa(gbifData: GbifOccurrenceRecord): TaxaBucket {
+  const classMapping: Record<string, TaxaBucket> = {
+    Aves: "Bird",
+    Mammalia: "Mammal",
+    Reptilia: "Reptile",
+    Squamata: "Reptile",
+    Testudines: "Reptile",
+    Crocodylia: "Reptile",
+    Amphibia: "Amphibian",
+    Actinopterygii: "Fish",
+    Elasmobranchii: "Fish",
+    Holocephali: "Fish",
+    Sarcopterygii: "Fish",
+    Petromyzonti: "Fish",
+    Myxini: "Fish",
+    Insecta: "Insect",
+    Arachnida: "Arachnid",
+  };
+
+  if (gbifData.class && classMapping[gbifData.class]) {
+    return classMapping[gbifData.class];
+  }
+  if (gbifData.phylum === "Mollusca") {
+    return "Mollusk";
+  }
+  if (gbifData.kingdom === "Plantae") {
+    return "Plant";
+  }
+  if (gbifData.kingdom === "Fungi") {
+    return "Fungi";
+  }
+
+  return "Other";
+}
+
+/**
+ * Observations normalized from one upstream response
+ */
+export interface NormalizedBatch {
+  observations: Observation[];
+  dropped: number; // Records that failed validation
+}
+
+/**
+ * Normalize a list of upstream records, counting the ones that were dropped
+ */
+export function normalizeAll(
+  records: unknown,
+  normalize: (record: unknown) => Observation | null
+): NormalizedBatch {
+  if (!Array.isArray(records)) {
+    return { observations: [], dropped: 0 };
+  }
+
+  const observations: Observation[] = [];
+  records.forEach((record) => {
+    const observation = normalize(record);
+    if (observation) {
+      observations.push(observation);
+    }
+  });
+
+  return { observations, dropped: records.length - observations.length };
+}
+
+/**
+ * Convert an upstream date string to ISO, or undefined when unparseable
+ */
+function toIsoDate(value?: string | null): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Reject normalized observations that can't be placed on the map
+ */
+function withValidLocation(observation: Observation): Observation | null {
+  return coordinatesSchema.safeParse(observation).success ? observation : null;
+}
+
+/**
+ * Build every size of an iNaturalist photo from its square URL
+ */
+function normalizeInatPhotos(
+  photos: InatObservationRecord["photos"]
+): ObservationPhoto[] {
+  return (photos || [])
+    .filter((photo) => photo.url)
+    .map((photo) => {
+      const urls: ObservationPhoto["urls"] = {};
+      INAT_PHOTO_SIZES.forEach((size) => {
+        urls[size] = photo.url!.replace("square", size);
+      });
+      return {
+        urls,
+        attribution: photo.attribution ?? undefined,
+        licenseCode: photo.license_code?.toLowerCase() || undefined,
+      };
+    });
+}
+
+/**
+ * Convert a Creative Commons license URL to an iNaturalist-style code
+ * e.g. http://creativecommons.org/licenses/by-nc/4.0/legalcode -> cc-by-nc
+ */
+function licenseUrlToCode(url?: string): string | undefined {
+  if (!url) return undefined;
+  if (/publicdomain\/(zero|mark)/.test(url)) return "cc0";
+  const match = url.match(/creativecommons\.org\/licenses\/([a-z-]+)/i);
+  return match ? `cc-${match[1].toLowerCase()}` : undefined;
+}
+
 /**
  * Normalize eBird observation to Observation type
+ * Returns null for malformed records
  */
-export function normalizeEbird(ebirdData: any): Observation {
-  const id = `ebird-${ebirdData.obsId || ebirdData.subId || Date.now()}`;
-  
-  return {
-    id,
+export function normalizeEbird(record: unknown): Observation | null {
+  const parsed = ebirdObservationSchema.safeParse(record);
+  if (!parsed.success) return null;
+  const ebirdData = parsed.data;
+
+  return withValidLocation({
+    id: `ebird-${ebirdData.obsId || ebirdData.subId}`,
     provider: "ebird" as Provider,
     lat: ebirdData.lat,
     lng: ebirdData.lng,
@@ -38,46 +176,124 @@ export function normalizeEbird(ebirdData: any): Observation {
     commonName: ebirdData.comName,
     scientificName: ebirdData.sciName,
     taxaBucket: "Bird" as TaxaBucket, // eBird is always birds
+    speciesCode: ebirdData.speciesCode,
+    observer: ebirdData.userDisplayName ? { name: ebirdData.userDisplayName } : undefined,
+    checklistId: ebirdData.subId,
+    count: ebirdData.howMany,
     photoUrl: undefined, // eBird doesn't provide photos in recent endpoint
     detailUrl: ebirdData.speciesCode
       ? `https://ebird.org/species/${ebirdData.speciesCode}`
       : undefined,
-    raw: ebirdData,
-  };
+    raw: record,
+  });
 }
 
 /**
  * Normalize iNaturalist observation to Observation type
+ * Returns null for malformed records, including those without a location
  */
-export function normalizeInat(inatData: any): Observation {
-  const id = `inat-${inatData.id}`;
+export function normalizeInat(record: unknown): Observation | null {
+  const parsed = inatObservationSchema.safeParse(record);
+  if (!parsed.success) return null;
+  const inatData = parsed.data;
   const taxon = inatData.taxon || {};
-  const photos = inatData.photos || [];
-  const bestPhoto = photos[0] || {};
-  
-  // Get photo URL (prefer medium, fallback to small)
-  let photoUrl: string | undefined;
-  if (bestPhoto.url) {
-    photoUrl = bestPhoto.url.replace("square", "medium") || bestPhoto.url;
-  }
+  const photos = normalizeInatPhotos(inatData.photos);
 
-  return {
-    id,
+  const [lat, lng] = inatData.location.split(",").map(parseFloat);
+
+  return withValidLocation({
+    id: `inat-${inatData.id}`,
     provider: "inat" as Provider,
-    lat: inatData.location ? parseFloat(inatData.location.split(",")[0]) : 0,
-    lng: inatData.location ? parseFloat(inatData.location.split(",")[1]) : 0,
-    observedAt: inatData.observed_on_string
-      ? new Date(inatData.observed_on_string).toISOString()
-      : inatData.time_observed_at,
-    placeGuess: inatData.place_guess,
+    lat,
+    lng,
+    observedAt: toIsoDate(inatData.observed_on_string) ?? inatData.time_observed_at ?? undefined,
+    placeGuess: inatData.place_guess ?? undefined,
     commonName: taxon.preferred_common_name || taxon.name,
     scientificName: taxon.name,
-    taxaBucket: mapInatTaxa(taxon.iconic_taxon_name),
-    photoUrl,
+    taxaBucket: mapInatTaxa(taxon.iconic_taxon_name ?? undefined),
+    taxonId: taxon.id,
+    observer: inatData.user?.login
+      ? { login: inatData.user.login, name: inatData.user.name || undefined }
+      : undefined,
+    qualityGrade: inatData.quality_grade,
+    identificationsCount: inatData.identifications_count,
+    photoUrl: photos[0]?.urls.medium,
+    photos: photos.length > 0 ? photos : undefined,
     detailUrl: `https://www.inaturalist.org/observations/${inatData.id}`,
-    raw: inatData,
-  };
+    raw: record,
+  });
 }
 
+/**
+ * Normalize GBIF occurrence to Observation type
+ * Returns null for malformed records
+ */
+export function normalizeGbif(record: unknown): Observation | null {
+  const parsed = gbifOccurrenceSchema.safeParse(record);
+  if (!parsed.success) return null;
+  const gbifData = parsed.data;
+  // GBIF links each image once, at the size the publisher uploaded
+  const photos: ObservationPhoto[] = (gbifData.media || [])
+    .filter((item) => item.type === "StillImage" && item.identifier)
+    .map((item) => {
+      const holder = item.rightsHolder || item.creator;
+      return {
+        urls: { original: item.identifier! },
+        attribution: holder ? `© ${holder}` : undefined,
+        licenseCode: licenseUrlToCode(item.license),
+      };
+    });
+  const scientificName = gbifData.species || gbifData.scientificName;
 
+  return withValidLocation({
+    id: `gbif-${gbifData.key}`,
+    provider: "gbif" as Provider,
+    lat: gbifData.decimalLatitude,
+    lng: gbifData.decimalLongitude,
+    // eventDate may be an ISO interval ("start/end"); use the start
+    observedAt: gbifData.eventDate
+      ? toIsoDate(gbifData.eventDate.split("/")[0])
+      : undefined,
+    placeGuess: gbifData.locality || gbifData.verbatimLocality,
+    commonName: gbifData.vernacularName || scientificName,
+    scientificName,
+    taxaBucket: mapGbifTaxa(gbifData),
+    observer: gbifData.recordedBy ? { name: gbifData.recordedBy } : undefined,
+    photoUrl: photos[0]?.urls.original,
+    photos: photos.length > 0 ? photos : undefined,
+    detailUrl: `https://www.gbif.org/occurrence/${gbifData.key}`,
+    raw: record,
+  });
+}
+
+/**
+ * Normalize an iNaturalist taxon from autocomplete or species counts
+ * Returns null for malformed records
+ */
+export function normalizeInatTaxon(record: unknown): TaxonSearchResult | null {
+  const parsed = inatTaxonResultSchema.safeParse(record);
+  if (!parsed.success) return null;
+  const taxon = parsed.data;
+  return {
+    id: `inat-${taxon.id}`,
+    commonName: taxon.preferred_common_name,
+    scientificName: taxon.name,
+    taxaBucket: mapInatTaxa(taxon.iconic_taxon_name ?? undefined),
+    photoUrl: taxon.default_photo?.square_url,
+    inatTaxonId: taxon.id,
+  };
+}
 
+/**
+ * Normalize an eBird taxonomy entry
+ * Entries are validated when the taxonomy is fetched
+ */
+export function normalizeEbirdTaxon(entry: EbirdTaxon): TaxonSearchResult {
+  return {
+    id: `ebird-${entry.speciesCode}`,
+    commonName: entry.comName,
+    scientificName: entry.sciName,
+    taxaBucket: "Bird",
+    ebirdSpeciesCode: entry.speciesCode,
+  };
+}
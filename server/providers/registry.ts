@@ -0,0 +1,168 @@
+import type { BoundingBox, CenterRadius } from "../utils/viewport";
+import type { DateRange } from "../utils/dates";
+import type { Observation, TaxaBucket } from "../../src/types/observation";
+import type { FilterParams } from "../../src/types/filters";
+import { getObserverLogin, hasSpeciesFilter } from "../../src/types/filters";
+import { PROVIDER_INFO } from "../../src/types/provider";
+import type {
+  ProviderId,
+  ProviderInfo,
+  ProviderStatus,
+} from "../../src/types/provider";
+import { ebirdProvider } from "./ebird";
+import { inatProvider } from "./inat";
+import { gbifProvider } from "./gbif";
+
+/**
+ * Normalized query passed to every provider
+ * Providers pick the spatial form that matches their capabilities
+ */
+export interface ProviderQuery {
+  bbox: BoundingBox;
+  centerRadius: CenterRadius;
+  dateRange: DateRange; // Inclusive, resolved from recency or a custom range
+  hasPhoto: boolean | null;
+  taxa: TaxaBucket[];
+  taxonIds: number[]; // iNaturalist taxon IDs, empty = all
+  speciesCodes: string[]; // eBird species codes, empty = all
+  researchGradeOnly: boolean;
+  observer: string | null; // "@username", or a name matching either
+  limit: number; // Max observations to return for this page
+  cursor?: string; // Provider-specific cursor from a previous page
+}
+
+/**
+ * One page of provider results
+ * nextCursor is null when the provider has nothing more for the query
+ */
+export interface ProviderPage {
+  observations: Observation[];
+  nextCursor: string | null;
+  dropped?: number; // Malformed upstream records skipped
+  partial?: string; // Why only part of the query could be served
+}
+
+/**
+ * What a provider module exports; its ID, label and capabilities come
+ * from PROVIDER_INFO, the list shared with the app
+ */
+export interface ProviderImplementation {
+  // Should throw on upstream failure so the handler can report it
+  fetchObservations: (query: ProviderQuery) => Promise<ProviderPage>;
+}
+
+export interface ObservationProvider extends ProviderInfo, ProviderImplementation {
+  id: ProviderId;
+}
+
+// Every PROVIDER_INFO entry registers its module here; the type makes a
+// missing or unknown provider a compile error
+const IMPLEMENTATIONS: Record<ProviderId, ProviderImplementation> = {
+  ebird: ebirdProvider,
+  inat: inatProvider,
+  gbif: gbifProvider,
+};
+
+// In PROVIDER_INFO order
+const PROVIDERS: ObservationProvider[] = PROVIDER_INFO.map((info) => ({
+  ...info,
+  ...IMPLEMENTATIONS[info.id],
+}));
+
+/**
+ * Get a registered provider by ID
+ */
+export function getProvider(id: ProviderId): ObservationProvider | undefined {
+  return PROVIDERS.find((provider) => provider.id === id);
+}
+
+/**
+ * Select the providers that can contribute results for a filter set
+ * Skips providers that weren't requested, can't satisfy the photo, quality
+ * or username filters, don't cover any of the requested taxa, or can't
+ * filter by the searched species
+ */
+export function getProvidersForFilters(
+  filters: FilterParams
+): ObservationProvider[] {
+  return PROVIDERS.filter((provider) => {
+    const { capabilities } = provider;
+
+    if (filters.provider.length > 0 && !filters.provider.includes(provider.id)) {
+      return false;
+    }
+
+    if (filters.hasPhoto === true && !capabilities.providesPhotos) {
+      return false;
+    }
+
+    if (filters.researchGradeOnly && !capabilities.qualityGradeFilter) {
+      return false;
+    }
+
+    if (getObserverLogin(filters.observer) && !capabilities.observerLogin) {
+      return false;
+    }
+
+    if (
+      filters.taxa.length > 0 &&
+      capabilities.taxa &&
+      !filters.taxa.some((taxa) => capabilities.taxa!.includes(taxa))
+    ) {
+      return false;
+    }
+
+    if (hasSpeciesFilter(filters)) {
+      const speciesIds =
+        capabilities.speciesFilter === "taxonId"
+          ? filters.taxonIds
+          : capabilities.speciesFilter === "speciesCode"
+            ? filters.speciesCodes
+            : [];
+      if (speciesIds.length === 0) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Query a provider and record its outcome instead of throwing
+ */
+export async function fetchWithStatus(
+  provider: ObservationProvider,
+  query: ProviderQuery
+): Promise<ProviderPage & { status: ProviderStatus }> {
+  const startedAt = Date.now();
+
+  try {
+    const { observations, nextCursor, dropped = 0, partial } =
+      await provider.fetchObservations(query);
+    return {
+      observations,
+      nextCursor,
+      dropped,
+      status: {
+        status: "ok",
+        count: observations.length,
+        latencyMs: Date.now() - startedAt,
+        ...(dropped > 0 && { dropped }),
+        ...(partial && { partial }),
+      },
+    };
+  } catch (error) {
+    console.error(`Error fetching ${provider.label} data:`, error);
+    return {
+      observations: [],
+      nextCursor: null,
+      status: {
+        status: "error",
+        count: 0,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { z } from "zod";
+
+/**
+ * Schemas for upstream provider records
+ * Only the fields we read are declared; everything else passes through
+ * to `raw` untouched
+ */
+
+const latitude = z.number().finite().min(-90).max(90);
+const longitude = z.number().finite().min(-180).max(180);
+
+export const inatPhotoSchema = z
+  .object({
+    url: z.string().optional(), // Square size; other sizes share the path
+    attribution: z.string().nullish(),
+    license_code: z.string().nullish(), // null = all rights reserved
+  })
+  .passthrough();
+
+export const inatTaxonSchema = z
+  .object({
+    id: z.number().optional(),
+    name: z.string().optional(),
+    preferred_common_name: z.string().optional(),
+    iconic_taxon_name: z.string().nullish(),
+  })
+  .passthrough();
+
+export const inatObservationSchema = z
+  .object({
+    id: z.number(),
+    location: z.string().regex(/^-?[\d.]+,-?[\d.]+$/), // "lat,lng"; obscured records may omit it
+    observed_on_string: z.string().nullish(),
+    time_observed_at: z.string().nullish(),
+    place_guess: z.string().nullish(),
+    taxon: inatTaxonSchema.nullish(),
+    photos: z.array(inatPhotoSchema).optional(),
+    user: z
+      .object({
+        login: z.string().optional(),
+        name: z.string().nullish(),
+      })
+      .passthrough()
+      .nullish(),
+    quality_grade: z.enum(["research", "needs_id", "casual"]).optional(),
+    identifications_count: z.number().optional(),
+  })
+  .passthrough();
+
+export type InatObservationRecord = z.infer<typeof inatObservationSchema>;
+
+// Every record has an id, which paging continues from
+export const inatObservationsResponseSchema = z
+  .object({
+    results: z.array(z.object({ id: z.number() }).passthrough()),
+  })
+  .passthrough();
+
+export const inatTaxonResultSchema = inatTaxonSchema.extend({
+  id: z.number(),
+  name: z.string(),
+  default_photo: z
+    .object({
+      square_url: z.string().optional(),
+    })
+    .passthrough()
+    .nullish(),
+});
+
+export const inatSpeciesCountSchema = z
+  .object({
+    count: z.number(),
+    taxon: inatTaxonResultSchema,
+  })
+  .passthrough();
+
+// Taxa and species counts share the envelope; results are parsed one by one
+export const inatResultsResponseSchema = z
+  .object({
+    results: z.array(z.unknown()),
+  })
+  .passthrough();
+
+export const ebirdObservationSchema = z
+  .object({
+    obsId: z.string().optional(),
+    subId: z.string().optional(),
+    lat: latitude,
+    lng: longitude,
+    obsDt: z.string().optional(),
+    obsDateTime: z.string().optional(),
+    locName: z.string().optional(),
+    comName: z.string().optional(),
+    sciName: z.string().optional(),
+    speciesCode: z.string().optional(),
+    userDisplayName: z.string().optional(), // Only with detail=full
+    howMany: z.number().optional(), // Missing when reported as present but not counted
+  })
+  .passthrough()
+  .refine((data) => data.obsId || data.subId, { message: "Missing obsId and subId" });
+
+export type EbirdObservationRecord = z.infer<typeof ebirdObservationSchema>;
+
+export const ebirdChecklistSchema = z
+  .object({
+    subId: z.string(),
+    locId: z.string(),
+    obsDt: z.string().optional(),
+    userDisplayName: z.string().optional(),
+    loc: z
+      .object({
+        name: z.string().optional(),
+        latitude: z.number().optional(),
+        longitude: z.number().optional(),
+      })
+      .passthrough()
+      .optional(), // Not always included; hotspots can be looked up instead
+    obs: z.array(
+      z
+        .object({
+          speciesCode: z.string(),
+          obsId: z.string().optional(),
+          howManyStr: z.string().optional(), // "X" when present but not counted
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const ebirdHotspotSchema = z
+  .object({
+    name: z.string().optional(),
+    latitude: z.number(),
+    longitude: z.number(),
+    countryCode: z.string().optional(),
+    subnational1Code: z.string().optional(), // State
+    subnational2Code: z.string().optional(), // County
+  })
+  .passthrough();
+
+export const ebirdTaxonSchema = z
+  .object({
+    speciesCode: z.string(),
+    comName: z.string(),
+    sciName: z.string(),
+  })
+  .passthrough();
+
+export const gbifMediaSchema = z
+  .object({
+    type: z.string().optional(),
+    identifier: z.string().optional(),
+    license: z.string().optional(), // License URL
+    rightsHolder: z.string().optional(),
+    creator: z.string().optional(),
+  })
+  .passthrough();
+
+export const gbifOccurrenceSchema = z
+  .object({
+    key: z.number(),
+    decimalLatitude: latitude,
+    decimalLongitude: longitude,
+    eventDate: z.string().optional(),
+    locality: z.string().optional(),
+    verbatimLocality: z.string().optional(),
+    species: z.string().optional(),
+    scientificName: z.string().optional(),
+    vernacularName: z.string().optional(),
+    recordedBy: z.string().optional(),
+    kingdom: z.string().optional(),
+    phylum: z.string().optional(),
+    class: z.string().optional(),
+    media: z.array(gbifMediaSchema).optional(),
+  })
+  .passthrough();
+
+export type GbifOccurrenceRecord = z.infer<typeof gbifOccurrenceSchema>;
+
+export const gbifResponseSchema = z
+  .object({
+    results: z.array(z.unknown()),
+    endOfRecords: z.boolean().optional(),
+  })
+  .passthrough();
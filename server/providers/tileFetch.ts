@@ -0,0 +1,109 @@
+import { fetchWithStatus, getProvidersForFilters } from "./registry";
+import { viewportToCenterRadius } from "../utils/viewport";
+import { getCacheKey, getCached, setCached } from "../utils/cache";
+import type { DateRange } from "../utils/dates";
+import type { ProviderCursorMap } from "../utils/cursor";
+import { boundingBoxToViewport, tileKey, tileToBoundingBox } from "../utils/tiles";
+import type { Tile } from "../utils/tiles";
+import type { Observation } from "../../src/types/observation";
+import type { FilterParams } from "../../src/types/filters";
+import type { ProviderId, ProviderStatus, ProviderStatusMap } from "../../src/types/provider";
+
+export interface TileResult {
+  observations: Observation[];
+  providers: ProviderStatusMap;
+  nextCursors: Partial<Record<ProviderId, string>>;
+}
+
+/**
+ * Fetch one tile from every provider that can satisfy the filters
+ * Complete results are cached per tile and filter set, so overlapping
+ * viewports only fetch the tiles they don't already have
+ */
+export async function fetchTile(
+  tile: Tile,
+  filters: FilterParams,
+  dateRange: DateRange,
+  limit: number,
+  providerCursors: ProviderCursorMap | null
+): Promise<TileResult> {
+  const cacheKey = getCacheKey(tileKey(tile), filters, {
+    limit,
+    cursor: providerCursors ? JSON.stringify(providerCursors) : null,
+  });
+  const cached = await getCached("observations", cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const bbox = tileToBoundingBox(tile);
+  const centerRadius = viewportToCenterRadius(boundingBoxToViewport(bbox));
+
+  // A failing provider is reported in the response instead of failing the request
+  // Follow-up pages only query providers that still have results
+  const providers = getProvidersForFilters(filters).filter(
+    (provider) => !providerCursors || providerCursors[provider.id] !== undefined
+  );
+  const results = await Promise.all(
+    providers.map((provider) =>
+      fetchWithStatus(provider, {
+        bbox,
+        centerRadius,
+        dateRange,
+        hasPhoto: filters.hasPhoto,
+        taxa: filters.taxa,
+        taxonIds: filters.taxonIds,
+        speciesCodes: filters.speciesCodes,
+        researchGradeOnly: filters.researchGradeOnly,
+        observer: filters.observer,
+        limit,
+        cursor: providerCursors?.[provider.id] ?? undefined,
+      })
+    )
+  );
+
+  const result: TileResult = {
+    observations: results.flatMap((providerResult) => providerResult.observations),
+    providers: {},
+    nextCursors: {},
+  };
+  providers.forEach((provider, index) => {
+    result.providers[provider.id] = results[index].status;
+    const providerCursor = results[index].nextCursor;
+    if (providerCursor) {
+      result.nextCursors[provider.id] = providerCursor;
+    }
+  });
+
+  // Only cache complete results so failed providers are retried next time
+  const hasFailures = results.some(
+    (providerResult) => providerResult.status.status === "error"
+  );
+  if (!hasFailures) {
+    await setCached("observations", cacheKey, result);
+  }
+
+  return result;
+}
+
+/**
+ * Combine a provider's status across tiles
+ * Any failing tile marks the provider as failed
+ */
+export function mergeProviderStatus(
+  existing: ProviderStatus | undefined,
+  next: ProviderStatus
+): ProviderStatus {
+  if (!existing) {
+    return next;
+  }
+
+  return {
+    status: existing.status === "error" || next.status === "error" ? "error" : "ok",
+    count: existing.count + next.count,
+    latencyMs: Math.max(existing.latencyMs, next.latencyMs),
+    error: existing.error ?? next.error,
+    dropped: (existing.dropped ?? 0) + (next.dropped ?? 0) || undefined,
+    partial: existing.partial ?? next.partial,
+  };
+}
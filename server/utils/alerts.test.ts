@@ -0,0 +1,240 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Observation } from "../../src/types/observation";
+import { MAX_NOTIFIED_IDS } from "../../src/types/alerts";
+import type { AlertsRequest, WatchedSpecies } from "../../src/types/alerts";
+import { evaluateWatchlist } from "./alerts";
+import type { AlertSources } from "./alerts";
+
+const CENTER = { lat: 37.77, lng: -122.42 };
+const NOW = new Date("2024-05-12T12:00:00Z");
+
+const ROBIN: WatchedSpecies = {
+  key: "turdus migratorius",
+  commonName: "American Robin",
+  scientificName: "Turdus migratorius",
+  inatTaxonId: 12727,
+  ebirdSpeciesCode: "amerob",
+};
+
+const NEWT: WatchedSpecies = {
+  key: "taricha torosa",
+  scientificName: "Taricha torosa",
+  inatTaxonId: 27805,
+};
+
+function inatObservation(id: number, overrides: Partial<Observation> = {}): Observation {
+  return {
+    id: `inat-${id}`,
+    provider: "inat",
+    lat: CENTER.lat + 0.01,
+    lng: CENTER.lng,
+    commonName: "American Robin",
+    scientificName: "Turdus migratorius",
+    taxaBucket: "Bird",
+    taxonId: 12727,
+    ...overrides,
+  };
+}
+
+function ebirdObservation(id: string, overrides: Partial<Observation> = {}): Observation {
+  return {
+    id: `ebird-${id}`,
+    provider: "ebird",
+    lat: CENTER.lat,
+    lng: CENTER.lng + 0.02,
+    commonName: "American Robin",
+    scientificName: "Turdus migratorius",
+    taxaBucket: "Bird",
+    speciesCode: "amerob",
+    ...overrides,
+  };
+}
+
+/**
+ * Sources that return canned observations, or fail when given an Error
+ */
+function cannedSources(
+  inat: Observation[] | Error,
+  ebird: Observation[] | Error
+): AlertSources {
+  return {
+    fetchInat: vi.fn(async () => {
+      if (inat instanceof Error) throw inat;
+      return { observations: inat, nextIdBelow: null, dropped: 0 };
+    }),
+    fetchRecentEbird: vi.fn(async () => {
+      if (ebird instanceof Error) throw ebird;
+      return { observations: ebird, dropped: 0 };
+    }),
+  };
+}
+
+function request(overrides: Partial<AlertsRequest> = {}): AlertsRequest {
+  return {
+    species: [ROBIN],
+    center: CENTER,
+    radiusKm: 10,
+    notifiedIds: [],
+    ...overrides,
+  };
+}
+
+function matchIds(evaluation: { matches: Array<{ observation: { id: string } }> }): string[] {
+  return evaluation.matches.map((match) => match.observation.id);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("evaluateWatchlist", () => {
+  it("queries each provider by its species IDs over the recent days", async () => {
+    const sources = cannedSources([], []);
+    await evaluateWatchlist(request({ species: [ROBIN, NEWT], backDays: 2 }), sources, NOW);
+
+    expect(sources.fetchInat).toHaveBeenCalledWith(
+      expect.objectContaining({
+        center: CENTER,
+        radiusKm: 10,
+        taxonIds: [12727, 27805],
+        dateRange: { since: "2024-05-10", until: "2024-05-12" },
+      })
+    );
+    expect(sources.fetchRecentEbird).toHaveBeenCalledWith(
+      expect.objectContaining({ backDays: 2, speciesCodes: ["amerob"] })
+    );
+  });
+
+  it("returns matches nearest first and remembers their IDs", async () => {
+    const evaluation = await evaluateWatchlist(
+      request({ notifiedIds: ["inat-1"] }),
+      cannedSources([inatObservation(2)], [ebirdObservation("a")]),
+      NOW
+    );
+
+    expect(matchIds(evaluation)).toEqual(["inat-2", "ebird-a"]);
+    expect(evaluation.matches[0]).toMatchObject({ speciesKey: ROBIN.key, distanceKm: 1.1 });
+    expect(evaluation.notifiedIds).toEqual(["inat-2", "ebird-a", "inat-1"]);
+    expect(evaluation.providers).toMatchObject({
+      inat: { status: "ok", count: 1 },
+      ebird: { status: "ok", count: 1 },
+    });
+  });
+
+  it("skips observations already alerted on", async () => {
+    const evaluation = await evaluateWatchlist(
+      request({ notifiedIds: ["inat-1", "ebird-a"] }),
+      cannedSources([inatObservation(1), inatObservation(2)], [ebirdObservation("a")]),
+      NOW
+    );
+
+    expect(matchIds(evaluation)).toEqual(["inat-2"]);
+    expect(evaluation.notifiedIds).toEqual(["inat-2", "inat-1", "ebird-a"]);
+  });
+
+  it("trims results outside the radius", async () => {
+    // eBird tiles cover a square around the center
+    const evaluation = await evaluateWatchlist(
+      request(),
+      cannedSources(
+        [inatObservation(1)],
+        [ebirdObservation("corner", { lat: CENTER.lat + 0.08, lng: CENTER.lng + 0.1 })]
+      ),
+      NOW
+    );
+
+    expect(matchIds(evaluation)).toEqual(["inat-1"]);
+  });
+
+  it("matches subspecies by scientific name prefix", async () => {
+    const evaluation = await evaluateWatchlist(
+      request({ species: [NEWT] }),
+      cannedSources(
+        [
+          inatObservation(1, {
+            commonName: "Coast Range Newt",
+            scientificName: "Taricha torosa torosa",
+            taxaBucket: "Amphibian",
+            taxonId: 27806,
+          }),
+          // Shares a prefix but not a word boundary
+          inatObservation(2, { scientificName: "Taricha torosalis", taxonId: 99999 }),
+        ],
+        []
+      ),
+      NOW
+    );
+
+    expect(matchIds(evaluation)).toEqual(["inat-1"]);
+    expect(evaluation.matches[0].speciesKey).toBe(NEWT.key);
+  });
+
+  it("ignores observations of other species", async () => {
+    const evaluation = await evaluateWatchlist(
+      request(),
+      cannedSources(
+        [inatObservation(1, { scientificName: "Cyanocitta stelleri", taxonId: 8229 })],
+        [ebirdObservation("a", { scientificName: "Cyanocitta stelleri", speciesCode: "stejay" })]
+      ),
+      NOW
+    );
+
+    expect(evaluation.matches).toEqual([]);
+  });
+
+  it("reports at most 50 matches and leaves the rest for the next check", async () => {
+    const observations = Array.from({ length: 60 }, (_, index) =>
+      inatObservation(index + 1, { lat: CENTER.lat + (index + 1) * 0.001 })
+    );
+    const evaluation = await evaluateWatchlist(
+      request(),
+      cannedSources(observations.reverse(), []),
+      NOW
+    );
+
+    expect(evaluation.matches).toHaveLength(50);
+    expect(matchIds(evaluation)[0]).toBe("inat-1");
+    expect(evaluation.notifiedIds).toHaveLength(50);
+    expect(evaluation.notifiedIds).not.toContain("inat-51");
+  });
+
+  it("keeps the newest notified IDs at the cap", async () => {
+    const notifiedIds = Array.from({ length: MAX_NOTIFIED_IDS }, (_, index) => `old-${index}`);
+    const evaluation = await evaluateWatchlist(
+      request({ notifiedIds }),
+      cannedSources([inatObservation(1), inatObservation(2)], []),
+      NOW
+    );
+
+    expect(evaluation.notifiedIds).toHaveLength(MAX_NOTIFIED_IDS);
+    expect(evaluation.notifiedIds.slice(0, 3)).toEqual(["inat-1", "inat-2", "old-0"]);
+    expect(evaluation.notifiedIds).not.toContain(`old-${MAX_NOTIFIED_IDS - 1}`);
+  });
+
+  it("reports a failing provider and keeps the other's matches", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const evaluation = await evaluateWatchlist(
+      request(),
+      cannedSources(new Error("iNaturalist API error: 503 Service Unavailable"), [
+        ebirdObservation("a"),
+      ]),
+      NOW
+    );
+
+    expect(matchIds(evaluation)).toEqual(["ebird-a"]);
+    expect(evaluation.providers.inat).toMatchObject({
+      status: "error",
+      count: 0,
+      error: "iNaturalist API error: 503 Service Unavailable",
+    });
+    expect(evaluation.providers.ebird).toMatchObject({ status: "ok", count: 1 });
+  });
+
+  it("only queries providers the watchlist has IDs for", async () => {
+    const sources = cannedSources([], []);
+    const evaluation = await evaluateWatchlist(request({ species: [NEWT] }), sources, NOW);
+
+    expect(sources.fetchRecentEbird).not.toHaveBeenCalled();
+    expect(Object.keys(evaluation.providers)).toEqual(["inat"]);
+  });
+});
@@ -0,0 +1,171 @@
+import type { fetchRecentEbird } from "../providers/ebird";
+import type { fetchInat } from "../providers/inat";
+import { toWireObservation } from "./wire";
+import { toDateString } from "./dates";
+import { distanceKm } from "../../src/utils/geo";
+import type { Observation } from "../../src/types/observation";
+import type { ProviderStatus, ProviderStatusMap } from "../../src/types/provider";
+import { MAX_NOTIFIED_IDS } from "../../src/types/alerts";
+import type { AlertMatch, AlertsRequest, WatchedSpecies } from "../../src/types/alerts";
+
+const DEFAULT_BACK_DAYS = 1;
+const MAX_MATCHES = 50;
+const INAT_LIMIT = 200; // One upstream page
+const EBIRD_MAX_RESULTS = 200; // Per species and tile
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Provider calls used to evaluate a watchlist
+ * Injected so the evaluation can run against canned results
+ */
+export interface AlertSources {
+  fetchRecentEbird: typeof fetchRecentEbird;
+  fetchInat: typeof fetchInat;
+}
+
+export interface AlertEvaluation {
+  matches: AlertMatch[];
+  notifiedIds: string[];
+  providers: ProviderStatusMap;
+}
+
+/**
+ * Run one provider's query and record its outcome instead of throwing
+ */
+async function withStatus(
+  label: string,
+  run: () => Promise<Observation[]>
+): Promise<{ observations: Observation[]; status: ProviderStatus }> {
+  const startedAt = Date.now();
+
+  try {
+    const observations = await run();
+    return {
+      observations,
+      status: { status: "ok", count: observations.length, latencyMs: Date.now() - startedAt },
+    };
+  } catch (error) {
+    console.error(`Error fetching ${label} alert data:`, error);
+    return {
+      observations: [],
+      status: {
+        status: "error",
+        count: 0,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+/**
+ * Watched species an observation is of, if any
+ * iNaturalist results include subspecies, so scientific names match by prefix
+ */
+export function findWatchedSpecies(
+  observation: Observation,
+  species: WatchedSpecies[]
+): WatchedSpecies | undefined {
+  const scientificName = observation.scientificName?.toLowerCase();
+  return species.find(
+    (watched) =>
+      (watched.inatTaxonId !== undefined && watched.inatTaxonId === observation.taxonId) ||
+      (!!watched.ebirdSpeciesCode && watched.ebirdSpeciesCode === observation.speciesCode) ||
+      (!!watched.scientificName &&
+        !!scientificName &&
+        (scientificName === watched.scientificName.toLowerCase() ||
+          scientificName.startsWith(`${watched.scientificName.toLowerCase()} `)))
+  );
+}
+
+/**
+ * Check a watchlist against recent observations
+ * Returns observations of watched species within the radius that weren't
+ * alerted on before, nearest first, and the IDs to remember for next time
+ */
+export async function evaluateWatchlist(
+  request: AlertsRequest,
+  sources: AlertSources,
+  now: Date = new Date()
+): Promise<AlertEvaluation> {
+  const { species, center, radiusKm, backDays = DEFAULT_BACK_DAYS } = request;
+  const taxonIds = species
+    .map((watched) => watched.inatTaxonId)
+    .filter((id): id is number => id !== undefined);
+  const speciesCodes = species
+    .map((watched) => watched.ebirdSpeciesCode)
+    .filter((code): code is string => !!code);
+
+  const [inatResult, ebirdResult] = await Promise.all([
+    taxonIds.length > 0
+      ? withStatus("iNaturalist", async () => {
+          const page = await sources.fetchInat({
+            center,
+            radiusKm,
+            dateRange: {
+              since: toDateString(new Date(now.getTime() - backDays * DAY_MS)),
+              until: toDateString(now),
+            },
+            taxonIds,
+            limit: INAT_LIMIT,
+          });
+          return page.observations;
+        })
+      : null,
+    speciesCodes.length > 0
+      ? withStatus("eBird", async () => {
+          const batch = await sources.fetchRecentEbird({
+            center,
+            radiusKm,
+            backDays,
+            maxResults: EBIRD_MAX_RESULTS,
+            speciesCodes,
+          });
+          return batch.observations;
+        })
+      : null,
+  ]);
+
+  const providers: ProviderStatusMap = {};
+  if (inatResult) providers.inat = inatResult.status;
+  if (ebirdResult) providers.ebird = ebirdResult.status;
+
+  const notified = new Set(request.notifiedIds);
+  const matches: AlertMatch[] = [];
+  [...(inatResult?.observations || []), ...(ebirdResult?.observations || [])].forEach(
+    (observation) => {
+      if (notified.has(observation.id)) {
+        return;
+      }
+      const watched = findWatchedSpecies(observation, species);
+      if (!watched) {
+        return;
+      }
+      // eBird tiles cover a square, so trim to the circle
+      const distance = distanceKm(center.lat, center.lng, observation.lat, observation.lng);
+      if (distance > radiusKm) {
+        return;
+      }
+      notified.add(observation.id); // Also dedupes results listed by several tiles
+      matches.push({
+        speciesKey: watched.key,
+        distanceKm: Math.round(distance * 10) / 10,
+        observation: toWireObservation(observation, { fields: null, debug: false }),
+      });
+    }
+  );
+
+  matches.sort((a, b) => a.distanceKm - b.distanceKm);
+  const reported = matches.slice(0, MAX_MATCHES);
+
+  return {
+    matches: reported,
+    // Newest first so the oldest are dropped at the cap; matches past
+    // MAX_MATCHES stay unnotified and are reported next time
+    notifiedIds: [
+      ...reported.map((match) => match.observation.id),
+      ...request.notifiedIds,
+    ].slice(0, MAX_NOTIFIED_IDS),
+    providers,
+  };
+}
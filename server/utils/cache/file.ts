@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rm, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import type { CacheStore } from "./types";
+
+interface FileEntry {
+  value: any;
+  expiresAt: number;
+}
+
+/**
+ * Filesystem store, one JSON file per key
+ * Survives restarts of a long-running server and is shared by processes on
+ * the same disk
+ */
+export function createFileStore(directory: string): CacheStore {
+  const pathForKey = (key: string) =>
+    join(directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+  return {
+    async get(key) {
+      const path = pathForKey(key);
+
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await readFile(path, "utf8"));
+      } catch {
+        // Missing or partially written file
+        return null;
+      }
+
+      if (Date.now() > entry.expiresAt) {
+        await unlink(path).catch(() => {});
+        return null;
+      }
+
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      await mkdir(directory, { recursive: true });
+
+      // A read racing this write fails to parse and is treated as a miss
+      const entry: FileEntry = { value, expiresAt: Date.now() + ttlMs };
+      await writeFile(pathForKey(key), JSON.stringify(entry), "utf8");
+    },
+
+    async clear() {
+      const files = await readdir(directory).catch(() => [] as string[]);
+      await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => rm(join(directory, file), { force: true }))
+      );
+    },
+  };
+}
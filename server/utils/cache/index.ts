@@ -0,0 +1,166 @@
+/**
+ * Server cache shared by all endpoints
+ * Backend is chosen by CACHE_BACKEND (memory | file | redis)
+ * Each namespace has its own TTL, overridable via CACHE_TTL_<NAMESPACE> (seconds)
+ */
+
+import { tmpdir } from "os";
+import { join } from "path";
+import type { FilterParams } from "../../../src/types/filters";
+import type { CacheStore } from "./types";
+import { createMemoryStore } from "./memory";
+import { createFileStore } from "./file";
+import { createRedisStore } from "./redis";
+
+export type { CacheStore } from "./types";
+
+export type CacheNamespace = "observations" | "wikipedia" | "share" | "taxa" | "seasonal";
+
+const DEFAULT_TTL_MS: Record<CacheNamespace, number> = {
+  observations: 5 * 60 * 1000, // 5 minutes
+  wikipedia: 10 * 60 * 1000, // 10 minutes
+  share: 60 * 60 * 1000, // 1 hour
+  taxa: 24 * 60 * 60 * 1000, // 24 hours; taxonomies change rarely
+  seasonal: 24 * 60 * 60 * 1000, // 24 hours; past years don't change
+};
+
+let store: CacheStore | null = null;
+
+/**
+ * Create the configured backend on first use
+ */
+function getStore(): CacheStore {
+  if (store) {
+    return store;
+  }
+
+  const backend = process.env.CACHE_BACKEND || "memory";
+
+  if (backend === "redis") {
+    const url = process.env.REDIS_URL;
+    if (!url) {
+      throw new Error("REDIS_URL environment variable is required for the redis cache backend");
+    }
+    store = createRedisStore(url, "animals-near-me:");
+  } else if (backend === "file") {
+    store = createFileStore(
+      process.env.CACHE_DIR || join(tmpdir(), "animals-near-me-cache")
+    );
+  } else if (backend === "memory") {
+    store = createMemoryStore();
+  } else {
+    throw new Error(`Unknown CACHE_BACKEND: ${backend}`);
+  }
+
+  return store;
+}
+
+/**
+ * Get TTL for a namespace, honoring env overrides
+ */
+export function getCacheTtlMs(namespace: CacheNamespace): number {
+  const override = process.env[`CACHE_TTL_${namespace.toUpperCase()}`];
+  const seconds = override ? parseFloat(override) : NaN;
+  return !isNaN(seconds) && seconds > 0
+    ? seconds * 1000
+    : DEFAULT_TTL_MS[namespace];
+}
+
+/**
+ * Generate cache key from a tile, optional filters and page
+ * Tiles are fixed, so small pans and zooms reuse the same keys
+ */
+export function getCacheKey(
+  tile: string,
+  filters?: FilterParams,
+  page?: { limit: number; cursor: string | null }
+): string {
+  let key = tile;
+  
+  // Add filter parameters to cache key if provided
+  if (filters) {
+    const filterParts: string[] = [];
+    
+    if (filters.since) {
+      filterParts.push(`since:${filters.since}|until:${filters.until ?? ""}`);
+    } else if (filters.recency) {
+      filterParts.push(`recency:${filters.recency}`);
+    }
+    if (filters.hasPhoto !== null) {
+      filterParts.push(`hasPhoto:${filters.hasPhoto}`);
+    }
+    if (filters.taxa.length > 0) {
+      // Sort taxa for consistent cache keys
+      const sortedTaxa = [...filters.taxa].sort().join(",");
+      filterParts.push(`taxa:${sortedTaxa}`);
+    }
+    if (filters.provider.length > 0) {
+      // Sort providers for consistent cache keys
+      const sortedProvider = [...filters.provider].sort().join(",");
+      filterParts.push(`provider:${sortedProvider}`);
+    }
+    if (filters.taxonIds.length > 0) {
+      const sortedTaxonIds = [...filters.taxonIds].sort((a, b) => a - b).join(",");
+      filterParts.push(`taxonIds:${sortedTaxonIds}`);
+    }
+    if (filters.speciesCodes.length > 0) {
+      const sortedSpeciesCodes = [...filters.speciesCodes].sort().join(",");
+      filterParts.push(`speciesCodes:${sortedSpeciesCodes}`);
+    }
+    if (filters.researchGradeOnly) {
+      filterParts.push("researchGrade:true");
+    }
+    if (filters.observer) {
+      filterParts.push(`observer:${filters.observer.toLowerCase()}`);
+    }
+    
+    if (filterParts.length > 0) {
+      key += `|${filterParts.join("|")}`;
+    }
+  }
+
+  if (page) {
+    key += `|limit:${page.limit}|cursor:${page.cursor ?? ""}`;
+  }
+  
+  return key;
+}
+
+/**
+ * Get a cached value
+ * Backend errors are logged and treated as a miss
+ */
+export async function getCached(
+  namespace: CacheNamespace,
+  key: string
+): Promise<any | null> {
+  try {
+    return await getStore().get(`${namespace}:${key}`);
+  } catch (error) {
+    console.error(`Error reading ${namespace} cache:`, error);
+    return null;
+  }
+}
+
+/**
+ * Set a cached value with the namespace's TTL
+ * Backend errors are logged; caching never fails a request
+ */
+export async function setCached(
+  namespace: CacheNamespace,
+  key: string,
+  data: any
+): Promise<void> {
+  try {
+    await getStore().set(`${namespace}:${key}`, data, getCacheTtlMs(namespace));
+  } catch (error) {
+    console.error(`Error writing ${namespace} cache:`, error);
+  }
+}
+
+/**
+ * Clear all cache
+ */
+export async function clearCache(): Promise<void> {
+  await getStore().clear();
+}
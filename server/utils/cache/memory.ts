@@ -0,0 +1,48 @@
+import type { CacheStore } from "./types";
+
+interface MemoryEntry {
+  value: any;
+  expiresAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Per-instance in-memory store
+ * Lost on cold start; evicts the oldest entries past MAX_ENTRIES
+ */
+export function createMemoryStore(): CacheStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      if (Date.now() > entry.expiresAt) {
+        entries.delete(key);
+        return null;
+      }
+
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      // Re-insert so Map order tracks write time
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      // Maps iterate in insertion order, so the first keys are the oldest
+      while (entries.size > MAX_ENTRIES) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+    },
+
+    async clear() {
+      entries.clear();
+    },
+  };
+}
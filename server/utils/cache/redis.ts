@@ -0,0 +1,49 @@
+import Redis from "ioredis";
+import type { CacheStore } from "./types";
+
+/**
+ * Store backed by any Redis-protocol server (Redis, Valkey, KeyDB, Upstash)
+ * Shared across serverless instances; keys expire server-side via PX
+ */
+export function createRedisStore(url: string, keyPrefix: string): CacheStore {
+  const client = new Redis(url, {
+    keyPrefix,
+    lazyConnect: true,
+    maxRetriesPerRequest: 1,
+  });
+
+  return {
+    async get(key) {
+      const value = await client.get(key);
+      return value === null ? null : JSON.parse(value);
+    },
+
+    async set(key, value, ttlMs) {
+      await client.set(
+        key,
+        JSON.stringify(value),
+        "PX",
+        Math.max(1, Math.round(ttlMs))
+      );
+    },
+
+    async clear() {
+      // keyPrefix isn't applied to SCAN patterns, so match on it explicitly
+      let cursor = "0";
+      do {
+        const [nextCursor, keys] = await client.scan(
+          cursor,
+          "MATCH",
+          `${keyPrefix}*`,
+          "COUNT",
+          100
+        );
+        if (keys.length > 0) {
+          // DEL would re-apply keyPrefix, so strip it first
+          await client.del(...keys.map((key) => key.slice(keyPrefix.length)));
+        }
+        cursor = nextCursor;
+      } while (cursor !== "0");
+    },
+  };
+}
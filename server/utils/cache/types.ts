@@ -0,0 +1,9 @@
+/**
+ * Backend-agnostic key/value store used by the server cache
+ * Values are JSON-serializable; expired entries read as null
+ */
+export interface CacheStore {
+  get(key: string): Promise<any | null>;
+  set(key: string, value: any, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+}
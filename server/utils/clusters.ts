@@ -0,0 +1,62 @@
+import type { Observation } from "../../src/types/observation";
+import type { ObservationCluster } from "../../src/types/cluster";
+import { zoomForViewport } from "./tiles";
+import type { Viewport } from "./viewport";
+
+const CELLS_PER_TILE = 4; // Viewports span 1-2 tiles, so roughly 4-8 clusters per side
+
+/**
+ * Cluster cell size in degrees for a viewport
+ * Derived from the tile zoom so clusters stay put across small pans and zooms
+ */
+export function clusterCellSize(viewport: Viewport): number {
+  return 360 / 2 ** zoomForViewport(viewport) / CELLS_PER_TILE;
+}
+
+/**
+ * Group observations into clusters on a fixed lat/lng grid
+ */
+export function clusterObservations(
+  observations: Observation[],
+  cellSize: number
+): ObservationCluster[] {
+  const clusters = new Map<string, ObservationCluster & { latSum: number; lngSum: number }>();
+
+  observations.forEach((obs) => {
+    const row = Math.floor(obs.lat / cellSize);
+    const col = Math.floor(obs.lng / cellSize);
+    const id = `${cellSize.toPrecision(6)}:${row}:${col}`;
+
+    let cluster = clusters.get(id);
+    if (!cluster) {
+      cluster = {
+        id,
+        lat: 0,
+        lng: 0,
+        count: 0,
+        individuals: 0,
+        taxa: {},
+        bounds: { north: obs.lat, south: obs.lat, east: obs.lng, west: obs.lng },
+        latSum: 0,
+        lngSum: 0,
+      };
+      clusters.set(id, cluster);
+    }
+
+    cluster.count++;
+    cluster.individuals += obs.count ?? 1;
+    cluster.latSum += obs.lat;
+    cluster.lngSum += obs.lng;
+    cluster.taxa[obs.taxaBucket] = (cluster.taxa[obs.taxaBucket] || 0) + 1;
+    cluster.bounds.north = Math.max(cluster.bounds.north, obs.lat);
+    cluster.bounds.south = Math.min(cluster.bounds.south, obs.lat);
+    cluster.bounds.east = Math.max(cluster.bounds.east, obs.lng);
+    cluster.bounds.west = Math.min(cluster.bounds.west, obs.lng);
+  });
+
+  return Array.from(clusters.values()).map(({ latSum, lngSum, ...cluster }) => ({
+    ...cluster,
+    lat: latSum / cluster.count,
+    lng: lngSum / cluster.count,
+  }));
+}
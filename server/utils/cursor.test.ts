@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "./cursor";
+import type { TileCursorMap } from "./cursor";
+
+function rawCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("decodeCursor", () => {
+  it("round-trips cursors from encodeCursor", () => {
+    const cursors: TileCursorMap = {
+      "12/655/1583": {
+        inat: { cursor: "2147483647", offset: 0 },
+        ebird: { cursor: null, offset: 40 },
+      },
+    };
+
+    expect(decodeCursor(encodeCursor(cursors)!)).toEqual(cursors);
+  });
+
+  it("rejects tiles outside the zoom range or the tile grid", () => {
+    const position = { inat: { cursor: null, offset: 0 } };
+
+    expect(decodeCursor(rawCursor({ "1/0/0": position }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "17/0/0": position }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "4/16/0": position }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "4/0/-1": position }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "4/1.5/0": position }))).toBeNull();
+  });
+
+  it("rejects more tiles than a viewport covers", () => {
+    const cursors: Record<string, unknown> = {};
+    for (let x = 0; x < 17; x++) {
+      cursors[`10/${x}/0`] = { inat: { cursor: null, offset: 0 } };
+    }
+
+    expect(decodeCursor(rawCursor(cursors))).toBeNull();
+  });
+
+  it("rejects unknown providers and malformed positions", () => {
+    expect(decodeCursor(rawCursor({ "10/1/1": { flickr: { cursor: null, offset: 0 } } }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "10/1/1": { inat: "2147483647" } }))).toBeNull();
+    expect(decodeCursor(rawCursor({ "10/1/1": { inat: { cursor: null, offset: -1 } } }))).toBeNull();
+    expect(decodeCursor("not a cursor")).toBeNull();
+  });
+});
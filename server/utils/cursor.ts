@@ -0,0 +1,92 @@
+import type { ProviderId } from "../../src/types/provider";
+import { isProviderId } from "../../src/types/provider";
+import { MAX_TILES, parseTileKey } from "./tiles";
+
+/**
+ * Per-provider upstream cursors for a tile query
+ * null fetches the provider's first page; providers missing from the map are skipped
+ */
+export type ProviderCursorMap = Partial<Record<ProviderId, string | null>>;
+
+/**
+ * Where a provider's results in a tile continue on the next page
+ * `offset` skips observations of the upstream page that were already returned
+ */
+export interface ProviderPosition {
+  cursor: string | null;
+  offset: number;
+}
+
+/**
+ * Provider positions keyed by tile key
+ * Tiles and providers missing from the map have no more results
+ */
+export type TileCursorMap = Record<string, Partial<Record<ProviderId, ProviderPosition>>>;
+
+/**
+ * Encode tile cursors into an opaque, URL-safe cursor string
+ * Returns null when no tile has more results
+ */
+export function encodeCursor(cursors: TileCursorMap): string | null {
+  if (Object.keys(cursors).length === 0) {
+    return null;
+  }
+  return Buffer.from(JSON.stringify(cursors)).toString("base64url");
+}
+
+/**
+ * Decode a cursor string produced by encodeCursor
+ * Returns null if the cursor is malformed or names more tiles than a viewport has
+ */
+export function decodeCursor(cursor: string): TileCursorMap | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!isPlainObject(parsed) || Object.keys(parsed).length > MAX_TILES) {
+      return null;
+    }
+
+    const cursors: TileCursorMap = {};
+    for (const [key, positions] of Object.entries(parsed)) {
+      if (!parseTileKey(key) || !isPlainObject(positions)) {
+        return null;
+      }
+
+      cursors[key] = {};
+      for (const [id, position] of Object.entries(positions)) {
+        if (!isProviderId(id) || !isProviderPosition(position)) {
+          return null;
+        }
+        cursors[key][id] = { cursor: position.cursor, offset: position.offset };
+      }
+    }
+    return cursors;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upstream cursors to fetch the pages a set of positions points into
+ */
+export function toProviderCursors(
+  positions: Partial<Record<ProviderId, ProviderPosition>>
+): ProviderCursorMap {
+  const cursors: ProviderCursorMap = {};
+  for (const [id, position] of Object.entries(positions)) {
+    cursors[id as ProviderId] = position!.cursor;
+  }
+  return cursors;
+}
+
+function isProviderPosition(value: unknown): value is ProviderPosition {
+  return (
+    isPlainObject(value) &&
+    (value.cursor === null || typeof value.cursor === "string") &&
+    Number.isSafeInteger(value.offset) &&
+    (value.offset as number) >= 0
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  datesInRange,
+  daysBetween,
+  isDateString,
+  isInDateRange,
+  resolveDateRange,
+} from "./dates";
+
+const NOW = new Date("2024-05-12T15:00:00Z");
+
+describe("isDateString", () => {
+  it("accepts real calendar dates only", () => {
+    expect(isDateString("2024-02-29")).toBe(true);
+    expect(isDateString("2023-02-29")).toBe(false);
+    expect(isDateString("2025-02-31")).toBe(false);
+    expect(isDateString("2024-5-1")).toBe(false);
+  });
+});
+
+describe("date arithmetic", () => {
+  it("counts and shifts whole days across month ends", () => {
+    expect(daysBetween("2024-02-27", "2024-03-02")).toBe(4);
+    expect(addDays("2024-02-27", 3)).toBe("2024-03-01");
+    expect(addDays("2024-01-01", -1)).toBe("2023-12-31");
+  });
+
+  it("lists every date in a range, oldest first", () => {
+    expect(datesInRange({ since: "2024-02-28", until: "2024-03-01" })).toEqual([
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ]);
+  });
+
+  it("compares observation dates by calendar day and keeps undated ones", () => {
+    const range = { since: "2024-05-01", until: "2024-05-10" };
+    expect(isInDateRange("2024-05-10T23:59:00Z", range)).toBe(true);
+    expect(isInDateRange("2024-05-11T00:00:00Z", range)).toBe(false);
+    expect(isInDateRange(undefined, range)).toBe(true);
+  });
+});
+
+describe("resolveDateRange", () => {
+  it("counts recency presets back from today", () => {
+    expect(resolveDateRange({ recency: "this_week", since: null, until: null }, NOW)).toEqual({
+      since: "2024-05-05",
+      until: "2024-05-12",
+    });
+    expect(resolveDateRange({ recency: null, since: null, until: null }, NOW)).toEqual({
+      since: "2024-05-05",
+      until: "2024-05-12",
+    });
+  });
+
+  it("prefers a custom range and ends it today at the latest", () => {
+    expect(
+      resolveDateRange({ recency: "today", since: "2024-04-01", until: "2024-04-15" }, NOW)
+    ).toEqual({ since: "2024-04-01", until: "2024-04-15" });
+    expect(
+      resolveDateRange({ recency: null, since: "2024-05-01", until: "2024-06-01" }, NOW)
+    ).toEqual({ since: "2024-05-01", until: "2024-05-12" });
+  });
+
+  it("never returns a range that ends before it starts", () => {
+    expect(resolveDateRange({ recency: null, since: "2024-05-13", until: null }, NOW)).toEqual({
+      since: "2024-05-12",
+      until: "2024-05-12",
+    });
+  });
+});
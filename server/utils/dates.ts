@@ -0,0 +1,106 @@
+import type { FilterParams, RecencyFilter } from "../../src/types/filters";
+
+/**
+ * Inclusive calendar date range, as YYYY-MM-DD strings
+ */
+export interface DateRange {
+  since: string;
+  until: string;
+}
+
+// Applied to every provider when no recency or range is given
+export const DEFAULT_RECENT_DAYS = 7;
+
+const RECENCY_DAYS: Record<NonNullable<RecencyFilter>, number> = {
+  today: 1,
+  this_week: 7,
+  this_month: 30,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a Date as YYYY-MM-DD (UTC)
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Check that a string is a real YYYY-MM-DD calendar date
+ */
+export function isDateString(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && toDateString(date) === value;
+}
+
+/**
+ * Whole days from one date string to another (until - since)
+ */
+export function daysBetween(since: string, until: string): number {
+  return Math.round(
+    (Date.parse(`${until}T00:00:00Z`) - Date.parse(`${since}T00:00:00Z`)) / DAY_MS
+  );
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+/**
+ * List every date in a range, oldest first
+ */
+export function datesInRange(range: DateRange): string[] {
+  const dates: string[] = [];
+  const start = Date.parse(`${range.since}T00:00:00Z`);
+  const end = Date.parse(`${range.until}T00:00:00Z`);
+  for (let time = start; time <= end; time += DAY_MS) {
+    dates.push(toDateString(new Date(time)));
+  }
+  return dates;
+}
+
+/**
+ * Check whether an observation date falls in a range
+ * Compares the calendar date only; undated observations are kept
+ */
+export function isInDateRange(observedAt: string | undefined, range: DateRange): boolean {
+  if (!observedAt) {
+    return true;
+  }
+  const date = observedAt.slice(0, 10);
+  return date >= range.since && date <= range.until;
+}
+
+/**
+ * Resolve filters to the date range every provider should query
+ * A custom since/until range wins over the recency preset
+ * Ranges end today at the latest and never end before they start
+ */
+export function resolveDateRange(
+  filters: Pick<FilterParams, "recency" | "since" | "until">,
+  now: Date = new Date()
+): DateRange {
+  const today = toDateString(now);
+
+  if (filters.since) {
+    const until = filters.until && filters.until < today ? filters.until : today;
+    return {
+      since: filters.since < until ? filters.since : until,
+      until,
+    };
+  }
+
+  const days = filters.recency ? RECENCY_DAYS[filters.recency] : DEFAULT_RECENT_DAYS;
+  return {
+    since: toDateString(new Date(now.getTime() - days * DAY_MS)),
+    until: today,
+  };
+}
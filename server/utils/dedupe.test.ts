@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { Observation } from "../../src/types/observation";
+import { deduplicateObservations } from "./dedupe";
+
+function observation(
+  id: string,
+  lat: number,
+  lng: number,
+  overrides: Partial<Observation> = {}
+): Observation {
+  return {
+    id,
+    provider: "inat",
+    lat,
+    lng,
+    commonName: "American Robin",
+    scientificName: "Turdus migratorius",
+    taxaBucket: "Bird",
+    ...overrides,
+  };
+}
+
+function ids(observations: Observation[]): string[] {
+  return observations.map((obs) => obs.id);
+}
+
+describe("deduplicateObservations", () => {
+  it("drops repeated IDs", () => {
+    const result = deduplicateObservations([
+      observation("inat-1", 37.7749, -122.4194),
+      observation("inat-1", 37.8, -122.3),
+    ]);
+
+    expect(ids(result)).toEqual(["inat-1"]);
+  });
+
+  it("drops the same species within 30 m, keeping the first", () => {
+    const result = deduplicateObservations([
+      observation("ebird-1", 37.77495, -122.4194, { provider: "ebird" }),
+      // About 19 m north, across a grid cell boundary
+      observation("inat-2", 37.77512, -122.4194),
+    ]);
+
+    expect(ids(result)).toEqual(["ebird-1"]);
+  });
+
+  it("matches species by common or scientific name", () => {
+    const result = deduplicateObservations([
+      observation("inat-1", 37.7749, -122.4194),
+      observation("gbif-2", 37.7749, -122.41941, { commonName: "Robin" }),
+      observation("ebird-3", 37.7749, -122.41942, { scientificName: undefined }),
+    ]);
+
+    expect(ids(result)).toEqual(["inat-1"]);
+  });
+
+  it("keeps other species and observations further away", () => {
+    const result = deduplicateObservations([
+      observation("inat-1", 37.7749, -122.4194),
+      observation("inat-2", 37.7749, -122.4194, {
+        commonName: "Steller's Jay",
+        scientificName: "Cyanocitta stelleri",
+      }),
+      // About 50 m east
+      observation("inat-3", 37.7749, -122.41883),
+    ]);
+
+    expect(ids(result)).toEqual(["inat-1", "inat-2", "inat-3"]);
+  });
+
+  it("finds neighbors across several narrow cells at high latitudes", () => {
+    const result = deduplicateObservations([
+      observation("inat-1", 78.2232, 15.6267),
+      // About 25 m east, several cells over at this latitude
+      observation("inat-2", 78.2232, 15.62775),
+    ]);
+
+    expect(ids(result)).toEqual(["inat-1"]);
+  });
+});
@@ -1,16 +1,21 @@
 import type { Observation } from "../../src/types/observation";
 import { distanceKm } from "./viewport";
 
+const DEDUPE_DISTANCE_KM = 0.03; // 30 meters
+const CELL_DEGREES = 0.0003; // About 33 m of latitude, just over the dedupe distance
+
 /**
  * Deduplicate observations by provider+id and spatial proximity
  * Removes duplicates where same species is within ~30m of each other
+ * Kept observations are indexed by species name and grid cell, so each
+ * check only compares against nearby observations of the same species
  */
 export function deduplicateObservations(
   observations: Observation[]
 ): Observation[] {
   const seen = new Set<string>();
   const result: Observation[] = [];
-  const DEDUPE_DISTANCE_M = 0.03; // 30 meters in km
+  const grid = new Map<string, Observation[]>();
 
   for (const obs of observations) {
     // First check: exact ID match
@@ -19,33 +24,45 @@ export function deduplicateObservations(
     }
 
     // Second check: spatial + species deduplication
-    const isDuplicate = result.some((existing) => {
-      const sameSpecies =
-        existing.commonName === obs.commonName ||
-        existing.scientificName === obs.scientificName;
-      
-      if (!sameSpecies) {
-        return false;
-      }
+    // Same species means the same common or scientific name
+    const names = [`common:${obs.commonName}`, `scientific:${obs.scientificName}`];
+    const row = Math.floor(obs.lat / CELL_DEGREES);
+    const col = Math.floor(obs.lng / CELL_DEGREES);
+    // Cells get narrower toward the poles, so search more columns there
+    const colSpan = Math.ceil(1 / Math.max(Math.cos((obs.lat * Math.PI) / 180), 0.05));
 
-      const dist = distanceKm(
-        existing.lat,
-        existing.lng,
-        obs.lat,
-        obs.lng
-      );
-
-      return dist < DEDUPE_DISTANCE_M;
+    const isDuplicate = names.some((name) => {
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - colSpan; c <= col + colSpan; c++) {
+          const nearby = grid.get(`${name}|${r}|${c}`);
+          if (
+            nearby?.some(
+              (existing) =>
+                distanceKm(existing.lat, existing.lng, obs.lat, obs.lng) <
+                DEDUPE_DISTANCE_KM
+            )
+          ) {
+            return true;
+          }
+        }
+      }
+      return false;
     });
 
     if (!isDuplicate) {
       seen.add(obs.id);
       result.push(obs);
+      names.forEach((name) => {
+        const key = `${name}|${row}|${col}`;
+        const cell = grid.get(key);
+        if (cell) {
+          cell.push(obs);
+        } else {
+          grid.set(key, [obs]);
+        }
+      });
     }
   }
 
   return result;
 }
-
-
-
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseFilterQuery } from "./filters";
+
+const NOW = new Date("2024-05-12T15:00:00Z");
+
+describe("parseFilterQuery date range", () => {
+  it("accepts a past range", () => {
+    const { filters } = parseFilterQuery({ since: "2024-04-01", until: "2024-04-15" }, NOW);
+    expect(filters).toMatchObject({ since: "2024-04-01", until: "2024-04-15" });
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseFilterQuery({ since: "2024-02-31" }, NOW).error).toMatch(/YYYY-MM-DD/);
+  });
+
+  it("rejects until without since", () => {
+    expect(parseFilterQuery({ until: "2024-04-15" }, NOW).error).toMatch(/until requires since/);
+  });
+
+  it("rejects since after until", () => {
+    expect(parseFilterQuery({ since: "2024-04-15", until: "2024-04-01" }, NOW).error).toMatch(
+      /since must not be after until/
+    );
+  });
+
+  it("rejects a since in the future, allowing a day for time zones", () => {
+    expect(parseFilterQuery({ since: "2024-05-13" }, NOW).filters).toBeDefined();
+    expect(parseFilterQuery({ since: "2024-05-14" }, NOW).error).toMatch(/in the future/);
+  });
+});
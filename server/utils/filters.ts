@@ -0,0 +1,138 @@
+import type { VercelRequest } from "@vercel/node";
+import { TAXA_BUCKETS } from "../../src/types/observation";
+import type { Observation, TaxaBucket } from "../../src/types/observation";
+import type { FilterParams, RecencyFilter } from "../../src/types/filters";
+import { matchesObserver } from "../../src/types/filters";
+import { isProviderId } from "../../src/types/provider";
+import { addDays, isDateString, toDateString } from "./dates";
+
+const MAX_SPECIES = 10; // Per species filter; eBird needs a request per species
+const MAX_OBSERVER_LENGTH = 100;
+
+/**
+ * Parse and validate filter query parameters shared by viewport endpoints
+ * Returns an error message for the 400 response when invalid
+ */
+export function parseFilterQuery(
+  query: VercelRequest["query"],
+  now: Date = new Date()
+): { filters: FilterParams; error?: undefined } | { filters?: undefined; error: string } {
+  const filters: FilterParams = {
+    recency: (query.recency as RecencyFilter) || null,
+    since: (query.since as string) || null,
+    until: (query.until as string) || null,
+    hasPhoto: query.hasPhoto
+      ? query.hasPhoto === "true"
+      : null,
+    taxa: query.taxa
+      ? (query.taxa as string)
+          .split(",")
+          .filter((t): t is TaxaBucket => TAXA_BUCKETS.includes(t as TaxaBucket))
+      : [],
+    provider: query.provider
+      ? (query.provider as string)
+          .split(",")
+          .filter(isProviderId)
+      : [],
+    taxonIds: query.taxonIds
+      ? (query.taxonIds as string)
+          .split(",")
+          .map((id) => parseInt(id, 10))
+          .filter((id) => !isNaN(id) && id > 0)
+      : [],
+    speciesCodes: query.speciesCodes
+      ? (query.speciesCodes as string)
+          .split(",")
+          .filter((code) => /^[a-z0-9]+$/i.test(code))
+      : [],
+    researchGradeOnly: query.researchGrade === "true",
+    observer: typeof query.observer === "string" && query.observer.trim()
+      ? query.observer.trim()
+      : null,
+  };
+
+  if (filters.observer && filters.observer.length > MAX_OBSERVER_LENGTH) {
+    return { error: `Invalid observer. At most ${MAX_OBSERVER_LENGTH} characters` };
+  }
+
+  if (
+    filters.taxonIds.length > MAX_SPECIES ||
+    filters.speciesCodes.length > MAX_SPECIES
+  ) {
+    return {
+      error: `Too many species. At most ${MAX_SPECIES} taxonIds and ${MAX_SPECIES} speciesCodes`,
+    };
+  }
+
+  // Validate recency filter
+  if (
+    filters.recency &&
+    !["today", "this_week", "this_month"].includes(filters.recency)
+  ) {
+    return {
+      error: "Invalid recency filter. Must be: today, this_week, or this_month",
+    };
+  }
+
+  // Validate custom date range
+  if (
+    (filters.since && !isDateString(filters.since)) ||
+    (filters.until && !isDateString(filters.until))
+  ) {
+    return { error: "Invalid date range. since and until must be YYYY-MM-DD" };
+  }
+  if (filters.until && !filters.since) {
+    return { error: "Invalid date range. until requires since" };
+  }
+  if (filters.since && filters.until && filters.since > filters.until) {
+    return { error: "Invalid date range. since must not be after until" };
+  }
+  // A day of slack for clients whose local date is ahead of the server's
+  if (filters.since && filters.since > addDays(toDateString(now), 1)) {
+    return { error: "Invalid date range. since must not be in the future" };
+  }
+
+  return { filters };
+}
+
+/**
+ * Apply filters to fetched observations
+ * Providers filter upstream where they can; this catches the rest
+ */
+export function applyFilters(
+  observations: Observation[],
+  filters: FilterParams
+): Observation[] {
+  let filtered = observations;
+
+  // Filter by taxa
+  if (filters.taxa.length > 0) {
+    filtered = filtered.filter((obs) =>
+      filters.taxa.includes(obs.taxaBucket)
+    );
+  }
+
+  // Filter by provider (already handled in fetch, but double-check)
+  if (filters.provider.length > 0) {
+    filtered = filtered.filter((obs) =>
+      filters.provider.includes(obs.provider)
+    );
+  }
+
+  // Filter by photo
+  if (filters.hasPhoto === true) {
+    filtered = filtered.filter((obs) => obs.photoUrl !== undefined);
+  } else if (filters.hasPhoto === false) {
+    filtered = filtered.filter((obs) => obs.photoUrl === undefined);
+  }
+
+  // Filter by quality grade and observer
+  if (filters.researchGradeOnly) {
+    filtered = filtered.filter((obs) => obs.qualityGrade === "research");
+  }
+  if (filters.observer) {
+    filtered = filtered.filter((obs) => matchesObserver(obs, filters.observer));
+  }
+
+  return filtered;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { Observation } from "../../src/types/observation";
+import { takePage } from "./paging";
+import type { PageSource } from "./paging";
+
+function observation(id: string, overrides: Partial<Observation> = {}): Observation {
+  return {
+    id,
+    provider: "inat",
+    lat: 37 + Number(id.replace(/\D/g, "")) / 100,
+    lng: -122,
+    commonName: `Species ${id}`,
+    taxaBucket: "Bird",
+    ...overrides,
+  };
+}
+
+function source(
+  tileKey: string,
+  ids: string[],
+  overrides: Partial<PageSource> = {}
+): PageSource {
+  return {
+    tileKey,
+    provider: "inat",
+    position: { cursor: null, offset: 0 },
+    observations: ids.map((id) => observation(id)),
+    ...overrides,
+  };
+}
+
+const keepAll = (observations: Observation[]) => observations;
+
+describe("takePage", () => {
+  it("cuts the merged page to the limit, interleaving sources", () => {
+    const page = takePage(
+      [source("10/1/1", ["a1", "a2", "a3"]), source("10/1/2", ["b1", "b2", "b3"])],
+      4,
+      keepAll
+    );
+
+    expect(page.observations.map((obs) => obs.id)).toEqual(["a1", "b1", "a2", "b2"]);
+    expect(page.nextCursors).toEqual({
+      "10/1/1": { inat: { cursor: null, offset: 2 } },
+      "10/1/2": { inat: { cursor: null, offset: 2 } },
+    });
+  });
+
+  it("moves to the upstream cursor once a source is used up", () => {
+    const page = takePage(
+      [
+        source("10/1/1", ["a1"], {
+          position: { cursor: "page-2", offset: 3 },
+          nextCursor: "page-3",
+        }),
+        source("10/1/2", ["b1", "b2"]),
+        source("10/1/3", ["c1"]),
+      ],
+      3,
+      keepAll
+    );
+
+    expect(page.nextCursors).toEqual({
+      "10/1/1": { inat: { cursor: "page-3", offset: 0 } },
+      "10/1/2": { inat: { cursor: null, offset: 1 } },
+    });
+  });
+
+  it("counts observations dropped by select as consumed", () => {
+    const page = takePage(
+      [source("10/1/1", ["a1", "a2", "a3", "a4"])],
+      2,
+      (observations) => observations.filter((obs) => obs.id !== "a2")
+    );
+
+    expect(page.observations.map((obs) => obs.id)).toEqual(["a1", "a3"]);
+    expect(page.nextCursors).toEqual({
+      "10/1/1": { inat: { cursor: null, offset: 3 } },
+    });
+  });
+
+  it("returns no cursors when every source is exhausted", () => {
+    const page = takePage([source("10/1/1", ["a1", "a2"])], 5, keepAll);
+
+    expect(page.observations).toHaveLength(2);
+    expect(page.nextCursors).toEqual({});
+  });
+});
@@ -0,0 +1,76 @@
+import type { Observation } from "../../src/types/observation";
+import type { ProviderId } from "../../src/types/provider";
+import type { ProviderPosition, TileCursorMap } from "./cursor";
+
+/**
+ * One provider's results in one tile, from where the last page stopped
+ */
+export interface PageSource {
+  tileKey: string;
+  provider: ProviderId;
+  position: ProviderPosition; // Where `observations` starts
+  observations: Observation[];
+  nextCursor?: string; // Upstream cursor after `observations`
+}
+
+export interface Page {
+  observations: Observation[];
+  nextCursors: TileCursorMap;
+}
+
+/**
+ * Merge sources into one page of at most `limit` observations
+ * `select` dedupes and filters the merged list, keeping its order
+ * Sources are interleaved so every tile and provider shows up on the page,
+ * and each source resumes after the last observation the page consumed
+ */
+export function takePage(
+  sources: PageSource[],
+  limit: number,
+  select: (observations: Observation[]) => Observation[]
+): Page {
+  const merged: Observation[] = [];
+  const origins: number[] = []; // Source index of each merged observation
+  const longest = Math.max(0, ...sources.map((source) => source.observations.length));
+  for (let i = 0; i < longest; i++) {
+    sources.forEach((source, sourceIndex) => {
+      if (i < source.observations.length) {
+        merged.push(source.observations[i]);
+        origins.push(sourceIndex);
+      }
+    });
+  }
+
+  const selected = select(merged);
+
+  // Everything before the first observation left off the page was consumed,
+  // including observations dropped as duplicates or by filters
+  const consumedCount =
+    selected.length > limit ? merged.indexOf(selected[limit]) : merged.length;
+  const consumed = sources.map(() => 0);
+  for (let i = 0; i < consumedCount; i++) {
+    consumed[origins[i]]++;
+  }
+
+  const nextCursors: TileCursorMap = {};
+  sources.forEach((source, sourceIndex) => {
+    let position: ProviderPosition | null = null;
+    if (consumed[sourceIndex] < source.observations.length) {
+      position = {
+        cursor: source.position.cursor,
+        offset: source.position.offset + consumed[sourceIndex],
+      };
+    } else if (source.nextCursor) {
+      position = { cursor: source.nextCursor, offset: 0 };
+    }
+
+    if (position) {
+      nextCursors[source.tileKey] = {
+        ...nextCursors[source.tileKey],
+        [source.provider]: position,
+      };
+    }
+  });
+
+  return { observations: selected.slice(0, limit), nextCursors };
+}
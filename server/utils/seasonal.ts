@@ -0,0 +1,103 @@
+import type { Observation, TaxaBucket } from "../../src/types/observation";
+import type { SeasonalSpecies } from "../../src/types/seasonal";
+import { toDateString } from "./dates";
+import type { DateRange } from "./dates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Observation count for one species in one past year
+ */
+export interface SpeciesCount {
+  commonName?: string;
+  scientificName: string;
+  taxaBucket: TaxaBucket;
+  count: number;
+  inatTaxonId?: number;
+  ebirdSpeciesCode?: string;
+}
+
+/**
+ * Count observations per species
+ */
+export function countSpecies(observations: Observation[]): SpeciesCount[] {
+  const counts = new Map<string, SpeciesCount>();
+
+  observations.forEach((obs) => {
+    if (!obs.scientificName) return;
+    const key = obs.scientificName.toLowerCase();
+    const existing = counts.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    counts.set(key, {
+      commonName: obs.commonName,
+      scientificName: obs.scientificName,
+      taxaBucket: obs.taxaBucket,
+      count: 1,
+      inatTaxonId: obs.taxonId,
+      ebirdSpeciesCode: obs.speciesCode,
+    });
+  });
+
+  return Array.from(counts.values());
+}
+
+/**
+ * Combine per-year species counts from every source into a ranked list
+ * Species seen in the most years rank first, then by total observations
+ */
+export function rankSeasonalSpecies(
+  countsByYear: Array<{ year: number; species: SpeciesCount[] }>,
+  totalYears: number
+): SeasonalSpecies[] {
+  const merged = new Map<string, SeasonalSpecies & { seenIn: Set<number> }>();
+
+  countsByYear.forEach(({ year, species }) => {
+    species.forEach((entry) => {
+      const key = entry.scientificName.toLowerCase();
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, {
+          key,
+          commonName: entry.commonName,
+          scientificName: entry.scientificName,
+          taxaBucket: entry.taxaBucket,
+          yearsSeen: 0,
+          frequency: 0,
+          count: entry.count,
+          inatTaxonId: entry.inatTaxonId,
+          ebirdSpeciesCode: entry.ebirdSpeciesCode,
+          seenIn: new Set([year]),
+        });
+        return;
+      }
+
+      existing.count += entry.count;
+      existing.seenIn.add(year);
+      existing.commonName = existing.commonName || entry.commonName;
+      existing.inatTaxonId = existing.inatTaxonId ?? entry.inatTaxonId;
+      existing.ebirdSpeciesCode = existing.ebirdSpeciesCode ?? entry.ebirdSpeciesCode;
+    });
+  });
+
+  return Array.from(merged.values())
+    .map(({ seenIn, ...species }) => ({
+      ...species,
+      yearsSeen: seenIn.size,
+      frequency: totalYears > 0 ? seenIn.size / totalYears : 0,
+    }))
+    .sort((a, b) => b.yearsSeen - a.yearsSeen || b.count - a.count);
+}
+
+/**
+ * The same calendar day as `now` in a past year, widened by `windowDays` each side
+ */
+export function sameDayInYear(now: Date, year: number, windowDays: number): DateRange {
+  const day = Date.UTC(year, now.getUTCMonth(), now.getUTCDate());
+  return {
+    since: toDateString(new Date(day - windowDays * DAY_MS)),
+    until: toDateString(new Date(day + windowDays * DAY_MS)),
+  };
+}
@@ -0,0 +1,193 @@
+import type { Observation, ObservationPhoto } from "../../src/types/observation";
+import { getPhotoCredit, getPhotoUrl } from "../../src/utils/photos";
+import { getProviderLabel } from "../../src/types/provider";
+import { getTaxaColor } from "../../src/utils/colors";
+import { pointToTilePosition } from "./tiles";
+
+const MAP_ZOOM = 13;
+const TILE_SIZE = 256;
+const TILE_URL = "https://tile.openstreetmap.org";
+const OPEN_APP_TIMEOUT_MS = 1500; // Then assume the app isn't installed
+
+interface SharePageOptions {
+  pageUrl: string; // Canonical URL of this page
+  deepLink: string; // Opens the observation in the app
+  previewPhoto: ObservationPhoto | null; // Only openly licensed photos
+  installUrl: string | null; // Where to get the app when it isn't installed
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Quote a value for an inline script without allowing it to close the tag
+ */
+function toScriptString(value: string): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+function formatObservedDate(observedAt?: string): string | null {
+  if (!observedAt) return null;
+  const date = new Date(observedAt);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * 2x2 OpenStreetMap tiles around the observation with a pin on it
+ * Keeps the page free of map API keys and scripts
+ */
+function renderStaticMap(observation: Observation): string {
+  const position = pointToTilePosition(observation.lat, observation.lng, MAP_ZOOM);
+  // Start half a tile up and left so the point is always in the middle area
+  const originX = Math.floor(position.x - 0.5);
+  const originY = Math.floor(position.y - 0.5);
+  const maxTile = 2 ** MAP_ZOOM;
+
+  const tiles: string[] = [];
+  for (let dy = 0; dy < 2; dy++) {
+    for (let dx = 0; dx < 2; dx++) {
+      const x = (((originX + dx) % maxTile) + maxTile) % maxTile;
+      const y = Math.min(maxTile - 1, Math.max(0, originY + dy));
+      tiles.push(
+        `<img src="${TILE_URL}/${MAP_ZOOM}/${x}/${y}.png" alt="" style="left:${dx * TILE_SIZE}px;top:${dy * TILE_SIZE}px">`
+      );
+    }
+  }
+
+  const pinLeft = (position.x - originX) * TILE_SIZE;
+  const pinTop = (position.y - originY) * TILE_SIZE;
+  const color = getTaxaColor(observation.taxaBucket);
+
+  return `<div class="map">
+      <div class="map-tiles">
+        ${tiles.join("\n        ")}
+        <span class="pin" style="left:${pinLeft}px;top:${pinTop}px;background:${color}"></span>
+      </div>
+      <a class="map-credit" href="https://www.openstreetmap.org/copyright">© OpenStreetMap contributors</a>
+    </div>`;
+}
+
+/**
+ * Server-rendered page for a shared observation
+ * Link previews read the Open Graph and Twitter tags; visitors get a
+ * summary and a button that opens the app or falls back to installing it
+ */
+export function renderSharePage(observation: Observation, options: SharePageOptions): string {
+  const name = observation.commonName || observation.scientificName || "Unknown species";
+  const observedDate = formatObservedDate(observation.observedAt);
+  const place =
+    observation.placeGuess ||
+    `${observation.lat.toFixed(4)}, ${observation.lng.toFixed(4)}`;
+  const providerName = getProviderLabel(observation.provider);
+
+  const descriptionParts = [
+    `Seen near ${place}`,
+    observedDate ? `on ${observedDate}` : null,
+    `· ${providerName}`,
+  ].filter(Boolean);
+  const description = descriptionParts.join(" ");
+
+  const title = escapeHtml(name);
+  const escapedDescription = escapeHtml(description);
+  const photoUrl = options.previewPhoto ? getPhotoUrl(options.previewPhoto) : undefined;
+  const photo = photoUrl ? escapeHtml(photoUrl) : null;
+  const photoCredit = options.previewPhoto ? escapeHtml(getPhotoCredit(options.previewPhoto)) : "";
+  const deepLink = escapeHtml(options.deepLink);
+
+  const metaTags = [
+    `<meta property="og:type" content="website">`,
+    `<meta property="og:site_name" content="Animals Near Me">`,
+    `<meta property="og:title" content="${title}">`,
+    `<meta property="og:description" content="${escapedDescription}">`,
+    `<meta property="og:url" content="${escapeHtml(options.pageUrl)}">`,
+    photo ? `<meta property="og:image" content="${photo}">` : null,
+    `<meta name="twitter:card" content="${photo ? "summary_large_image" : "summary"}">`,
+    `<meta name="twitter:title" content="${title}">`,
+    `<meta name="twitter:description" content="${escapedDescription}">`,
+    photo ? `<meta name="twitter:image" content="${photo}">` : null,
+  ].filter(Boolean);
+
+  // Try the app first; if the page is still visible afterwards, it isn't installed
+  const openAppScript = options.installUrl
+    ? `<script>
+      document.getElementById("open-app").addEventListener("click", function (event) {
+        event.preventDefault();
+        window.location.href = ${toScriptString(options.deepLink)};
+        setTimeout(function () {
+          if (!document.hidden) {
+            window.location.href = ${toScriptString(options.installUrl)};
+          }
+        }, ${OPEN_APP_TIMEOUT_MS});
+      });
+    </script>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title} · Animals Near Me</title>
+    <meta name="description" content="${escapedDescription}">
+    ${metaTags.join("\n    ")}
+    <style>
+      body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #F9FAFB; color: #111827; }
+      main { max-width: 480px; margin: 0 auto; padding: 24px 16px 40px; }
+      .photo { width: 100%; border-radius: 12px; display: block; }
+      .credit { font-size: 12px; color: #6B7280; margin: 6px 0 0; }
+      h1 { font-size: 26px; margin: 20px 0 4px; }
+      .scientific { font-style: italic; color: #6B7280; margin: 0 0 16px; }
+      .detail { margin: 0 0 8px; font-size: 16px; }
+      .label { display: block; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: #6B7280; }
+      .map { margin: 20px 0; }
+      .map-tiles { position: relative; width: 512px; height: 512px; transform: scale(0.5); transform-origin: top left; margin-bottom: -256px; }
+      .map-tiles img { position: absolute; width: ${TILE_SIZE}px; height: ${TILE_SIZE}px; }
+      .pin { position: absolute; width: 28px; height: 28px; margin: -17px 0 0 -17px; border-radius: 50%; border: 3px solid #FFFFFF; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4); }
+      .map-credit { display: block; font-size: 11px; color: #6B7280; margin-top: 4px; }
+      .button { display: block; text-align: center; padding: 14px; border-radius: 24px; background: #3B82F6; color: #FFFFFF; font-weight: 600; text-decoration: none; }
+      .source { display: block; text-align: center; margin-top: 12px; color: #3B82F6; text-decoration: none; }
+    </style>
+  </head>
+  <body>
+    <main>
+      ${
+        photo
+          ? `<img class="photo" src="${photo}" alt="${title}">
+      <p class="credit">${photoCredit}</p>`
+          : ""
+      }
+      <h1>${title}</h1>
+      ${
+        observation.scientificName && observation.commonName
+          ? `<p class="scientific">${escapeHtml(observation.scientificName)}</p>`
+          : ""
+      }
+      <p class="detail"><span class="label">Where</span>${escapeHtml(place)}</p>
+      ${observedDate ? `<p class="detail"><span class="label">When</span>${escapeHtml(observedDate)}</p>` : ""}
+      ${renderStaticMap(observation)}
+      <a id="open-app" class="button" href="${deepLink}">Open in Animals Near Me</a>
+      ${
+        observation.detailUrl
+          ? `<a class="source" href="${escapeHtml(observation.detailUrl)}">View on ${escapeHtml(providerName)} →</a>`
+          : ""
+      }
+    </main>
+    ${openAppScript}
+  </body>
+</html>`;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TILES,
+  parseTileKey,
+  tileKey,
+  tileToBoundingBox,
+  tilesForBoundingBox,
+  tilesForViewport,
+  zoomForViewport,
+} from "./tiles";
+import { viewportToBoundingBox } from "./viewport";
+
+describe("tile keys", () => {
+  it("round-trips tiles through their key", () => {
+    const tile = { z: 12, x: 655, y: 1583 };
+    expect(tileKey(tile)).toBe("12/655/1583");
+    expect(parseTileKey(tileKey(tile))).toEqual(tile);
+  });
+
+  it("rejects malformed keys and tiles outside the grid", () => {
+    expect(parseTileKey("12/655")).toBeNull();
+    expect(parseTileKey("12/a/1583")).toBeNull();
+    expect(parseTileKey("1/0/0")).toBeNull(); // Below the minimum zoom
+    expect(parseTileKey("3/8/0")).toBeNull(); // x past 2^z - 1
+  });
+});
+
+describe("zoomForViewport", () => {
+  it("picks a zoom with a few tiles per side, within the zoom range", () => {
+    expect(zoomForViewport({ lat: 37.77, lng: -122.42, latDelta: 0.1, lngDelta: 0.1 })).toBe(11);
+    expect(zoomForViewport({ lat: 0, lng: 0, latDelta: 170, lngDelta: 360 })).toBe(2);
+    expect(zoomForViewport({ lat: 0, lng: 0, latDelta: 0.0001, lngDelta: 0.0001 })).toBe(16);
+  });
+});
+
+describe("tilesForViewport", () => {
+  it("covers the viewport's bounding box", () => {
+    const viewport = { lat: 37.77, lng: -122.42, latDelta: 0.1, lngDelta: 0.1 };
+    const bbox = viewportToBoundingBox(viewport);
+    const tiles = tilesForViewport(viewport, bbox);
+
+    const west = Math.min(...tiles.map((tile) => tileToBoundingBox(tile).sw.lng));
+    const east = Math.max(...tiles.map((tile) => tileToBoundingBox(tile).ne.lng));
+    const south = Math.min(...tiles.map((tile) => tileToBoundingBox(tile).sw.lat));
+    const north = Math.max(...tiles.map((tile) => tileToBoundingBox(tile).ne.lat));
+    expect(west).toBeLessThanOrEqual(bbox.sw.lng);
+    expect(east).toBeGreaterThanOrEqual(bbox.ne.lng);
+    expect(south).toBeLessThanOrEqual(bbox.sw.lat);
+    expect(north).toBeGreaterThanOrEqual(bbox.ne.lat);
+  });
+
+  it("coarsens the zoom when the bounding box needs too many tiles", () => {
+    const viewport = { lat: 70, lng: 20, latDelta: 1, lngDelta: 1 };
+    const bbox = { ne: { lat: 75, lng: 21 }, sw: { lat: 65, lng: 19 } };
+    const tiles = tilesForViewport(viewport, bbox);
+
+    expect(tilesForBoundingBox(bbox, zoomForViewport(viewport)).length).toBeGreaterThan(MAX_TILES);
+    expect(tiles.length).toBeLessThanOrEqual(MAX_TILES);
+    expect(tiles[0].z).toBeLessThan(zoomForViewport(viewport));
+  });
+
+  it("lists tiles with y growing southward", () => {
+    const tiles = tilesForBoundingBox(
+      { ne: { lat: 10, lng: 10 }, sw: { lat: -10, lng: -10 } },
+      2
+    );
+    expect(tiles).toEqual([
+      { z: 2, x: 1, y: 1 },
+      { z: 2, x: 1, y: 2 },
+      { z: 2, x: 2, y: 1 },
+      { z: 2, x: 2, y: 2 },
+    ]);
+  });
+});
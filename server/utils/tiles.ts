@@ -0,0 +1,150 @@
+import type { BoundingBox, Viewport } from "./viewport";
+
+/**
+ * Slippy-map (Web Mercator) tile coordinate
+ */
+export interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 16;
+export const MAX_TILES = 16; // Per viewport; guards against tall high-latitude viewports
+const MAX_MERCATOR_LAT = 85.05112878;
+
+/**
+ * Stable string key for a tile, e.g. "12/655/1583"
+ */
+export function tileKey(tile: Tile): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+/**
+ * Parse a tile key produced by tileKey
+ * Returns null for malformed keys and tiles that tilesForViewport never picks
+ */
+export function parseTileKey(key: string): Tile | null {
+  if (!/^\d+\/\d+\/\d+$/.test(key)) {
+    return null;
+  }
+  const [z, x, y] = key.split("/").map((part) => parseInt(part, 10));
+  const n = 2 ** z;
+  if (z < MIN_ZOOM || z > MAX_ZOOM || x >= n || y >= n) {
+    return null;
+  }
+  return { z, x, y };
+}
+
+/**
+ * Pick a tile zoom where the viewport spans roughly 2-3 tiles per side
+ * Integer zooms keep tiles stable across small pans and zooms
+ */
+export function zoomForViewport(viewport: Viewport): number {
+  const span = Math.max(viewport.latDelta, viewport.lngDelta);
+  const zoom = Math.floor(Math.log2(360 / span));
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Fractional tile coordinates of a point at zoom z
+ * The integer part is the tile; the remainder is the position inside it
+ */
+export function pointToTilePosition(
+  lat: number,
+  lng: number,
+  z: number
+): { x: number; y: number } {
+  const n = 2 ** z;
+  const clamped = Math.min(MAX_MERCATOR_LAT, Math.max(-MAX_MERCATOR_LAT, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return {
+    x: ((lng + 180) / 360) * n,
+    y: ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n,
+  };
+}
+
+function lngToTileX(lng: number, z: number): number {
+  const n = 2 ** z;
+  return Math.min(n - 1, Math.max(0, Math.floor(pointToTilePosition(0, lng, z).x)));
+}
+
+function latToTileY(lat: number, z: number): number {
+  const n = 2 ** z;
+  return Math.min(n - 1, Math.max(0, Math.floor(pointToTilePosition(lat, 0, z).y)));
+}
+
+function tileXToLng(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+/**
+ * List tiles at zoom z that intersect a bounding box
+ */
+export function tilesForBoundingBox(bbox: BoundingBox, z: number): Tile[] {
+  const minX = lngToTileX(bbox.sw.lng, z);
+  const maxX = lngToTileX(bbox.ne.lng, z);
+  // Tile Y grows southward
+  const minY = latToTileY(bbox.ne.lat, z);
+  const maxY = latToTileY(bbox.sw.lat, z);
+
+  const tiles: Tile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * List tiles covering a viewport, coarsening the zoom if it needs too many
+ */
+export function tilesForViewport(
+  viewport: Viewport,
+  bbox: BoundingBox
+): Tile[] {
+  let z = zoomForViewport(viewport);
+  let tiles = tilesForBoundingBox(bbox, z);
+
+  while (tiles.length > MAX_TILES && z > MIN_ZOOM) {
+    z--;
+    tiles = tilesForBoundingBox(bbox, z);
+  }
+
+  return tiles;
+}
+
+/**
+ * Convert a tile to its bounding box
+ */
+export function tileToBoundingBox(tile: Tile): BoundingBox {
+  return {
+    ne: {
+      lat: tileYToLat(tile.y, tile.z),
+      lng: tileXToLng(tile.x + 1, tile.z),
+    },
+    sw: {
+      lat: tileYToLat(tile.y + 1, tile.z),
+      lng: tileXToLng(tile.x, tile.z),
+    },
+  };
+}
+
+/**
+ * Convert a bounding box to a center + delta viewport
+ */
+export function boundingBoxToViewport(bbox: BoundingBox): Viewport {
+  return {
+    lat: (bbox.ne.lat + bbox.sw.lat) / 2,
+    lng: (bbox.ne.lng + bbox.sw.lng) / 2,
+    latDelta: bbox.ne.lat - bbox.sw.lat,
+    lngDelta: bbox.ne.lng - bbox.sw.lng,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { Observation } from "../../src/types/observation";
+import { parseFieldsQuery, toWireObservation } from "./wire";
+
+const OBSERVATION: Observation = {
+  id: "inat-1",
+  provider: "inat",
+  lat: 37.774912345,
+  lng: -122.419412345,
+  observedAt: "2024-05-12T08:30:00.000Z",
+  commonName: "American Robin",
+  scientificName: "Turdus migratorius",
+  taxaBucket: "Bird",
+  photoUrl: "https://example.org/medium.jpg",
+  raw: { id: 1, big: "payload" },
+};
+
+describe("parseFieldsQuery", () => {
+  it("returns null when no fields are given", () => {
+    expect(parseFieldsQuery(undefined)).toEqual({ fields: null });
+    expect(parseFieldsQuery("")).toEqual({ fields: null });
+  });
+
+  it("keeps requested optional fields and accepts required ones", () => {
+    expect(parseFieldsQuery("id, commonName,photoUrl")).toEqual({
+      fields: ["commonName", "photoUrl"],
+    });
+  });
+
+  it("rejects unknown fields", () => {
+    expect(parseFieldsQuery("commonName,raw").error).toMatch(/^Invalid fields: raw\./);
+  });
+});
+
+describe("toWireObservation", () => {
+  it("drops the upstream payload and rounds coordinates to 5 decimals", () => {
+    const wire = toWireObservation(OBSERVATION, { fields: null, debug: false });
+
+    expect(wire).not.toHaveProperty("raw");
+    expect(wire).toMatchObject({ lat: 37.77491, lng: -122.41941, photoUrl: OBSERVATION.photoUrl });
+  });
+
+  it("keeps only selected fields besides the required ones", () => {
+    const wire = toWireObservation(OBSERVATION, { fields: ["commonName"], debug: false });
+
+    expect(Object.keys(wire).sort()).toEqual(
+      ["commonName", "id", "lat", "lng", "provider", "taxaBucket"].sort()
+    );
+  });
+
+  it("includes the upstream payload when debugging", () => {
+    const wire = toWireObservation(OBSERVATION, { fields: null, debug: true });
+
+    expect(wire).toHaveProperty("raw", OBSERVATION.raw);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Observation, WireObservation } from "../../src/types/observation";
+
+type ObservationField = keyof WireObservation;
+
+// Always sent so every observation can be placed and colored on the map
+const REQUIRED_FIELDS: ObservationField[] = ["id", "provider", "lat", "lng", "taxaBucket"];
+
+const OPTIONAL_FIELDS: ObservationField[] = [
+  "observedAt",
+  "placeGuess",
+  "commonName",
+  "scientificName",
+  "taxonId",
+  "speciesCode",
+  "observer",
+  "qualityGrade",
+  "identificationsCount",
+  "checklistId",
+  "count",
+  "photoUrl",
+  "photos",
+  "detailUrl",
+];
+
+const COORDINATE_DECIMALS = 5; // About 1 m
+
+/**
+ * Parse a comma-separated `fields` parameter
+ * Returns null when every field is wanted, or an error for unknown fields
+ */
+export function parseFieldsQuery(
+  value: unknown
+): { fields: ObservationField[] | null; error?: undefined } | { fields?: undefined; error: string } {
+  if (typeof value !== "string" || value.length === 0) {
+    return { fields: null };
+  }
+
+  const requested = value.split(",").map((field) => field.trim());
+  const unknown = requested.filter(
+    (field) =>
+      !REQUIRED_FIELDS.includes(field as ObservationField) &&
+      !OPTIONAL_FIELDS.includes(field as ObservationField)
+  );
+  if (unknown.length > 0) {
+    return {
+      error: `Invalid fields: ${unknown.join(", ")}. Allowed: ${[
+        ...REQUIRED_FIELDS,
+        ...OPTIONAL_FIELDS,
+      ].join(", ")}`,
+    };
+  }
+
+  return {
+    fields: OPTIONAL_FIELDS.filter((field) => requested.includes(field)),
+  };
+}
+
+function roundCoordinate(value: number): number {
+  return parseFloat(value.toFixed(COORDINATE_DECIMALS));
+}
+
+/**
+ * Convert an observation to its compact wire form
+ * Drops the upstream payload unless debugging and keeps only the selected fields
+ */
+export function toWireObservation(
+  observation: Observation,
+  options: { fields: ObservationField[] | null; debug: boolean }
+): WireObservation | Observation {
+  const { raw, ...rest } = observation;
+  const wire: WireObservation = {
+    ...rest,
+    lat: roundCoordinate(observation.lat),
+    lng: roundCoordinate(observation.lng),
+  };
+
+  if (options.fields) {
+    OPTIONAL_FIELDS.forEach((field) => {
+      if (!options.fields!.includes(field)) {
+        delete wire[field];
+      }
+    });
+  }
+
+  return options.debug ? { ...wire, raw } : wire;
+}
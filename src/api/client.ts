@@ -1,25 +1,100 @@
 import type { ViewportParams } from "../utils/viewport";
-import type { Observation } from "../types/observation";
+import { OBSERVATIONS_SCHEMA_VERSION } from "../types/observation";
+import type { Observation, WireObservation } from "../types/observation";
 import type { WikipediaSummary } from "../types/wikipedia";
 import type { FilterParams } from "../types/filters";
+import type { ProviderStatusMap } from "../types/provider";
+import type { TaxonSearchResult } from "../types/taxa";
+import type { SeasonalResponse } from "../types/seasonal";
+import type { DensityResponse } from "../types/density";
+import type { ObservationCluster } from "../types/cluster";
+import type { AlertMatch, AlertsRequest, AlertsResponse } from "../types/alerts";
+import {
+  alertsResponseSchema,
+  clustersResponseSchema,
+  densityResponseSchema,
+  observationsResponseSchema,
+  parseEach,
+  seasonalResponseSchema,
+  taxaSearchResponseSchema,
+  taxonSearchResultSchema,
+  wikipediaSummarySchema,
+  wireObservationSchema,
+} from "../types/schemas";
+import type { Diagnostics } from "../types/schemas";
+import { loadOfflineWikipedia, saveOfflineWikipedia } from "../utils/offlineCache";
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000/api";
 
 export interface FetchObservationsResponse {
-  observations: Observation[];
+  schemaVersion: number; // OBSERVATIONS_SCHEMA_VERSION the server responded with
+  observations: WireObservation[]; // Without upstream payloads
+  providers: ProviderStatusMap;
+  nextCursor: string | null; // Pass back as `cursor` to load the next page
+  diagnostics: Diagnostics; // Includes observations dropped here as malformed
+}
+
+export interface PageParams {
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface FetchClustersResponse {
+  clusters: ObservationCluster[];
+  total: number; // Observations across all clusters
+  truncated: boolean; // Counts are lower bounds when providers had more results
+  providers: ProviderStatusMap;
+  diagnostics: Diagnostics;
 }
 
 export interface FetchObservationResponse {
   observation: Observation;
 }
 
+/**
+ * Add filter query parameters shared by viewport endpoints
+ */
+function appendFilterParams(params: URLSearchParams, filters: FilterParams): void {
+  if (filters.since) {
+    params.set("since", filters.since);
+    if (filters.until) {
+      params.set("until", filters.until);
+    }
+  } else if (filters.recency) {
+    params.set("recency", filters.recency);
+  }
+  if (filters.hasPhoto !== null) {
+    params.set("hasPhoto", filters.hasPhoto ? "true" : "false");
+  }
+  if (filters.taxa.length > 0) {
+    params.set("taxa", filters.taxa.join(","));
+  }
+  if (filters.provider.length > 0) {
+    params.set("provider", filters.provider.join(","));
+  }
+  if (filters.taxonIds.length > 0) {
+    params.set("taxonIds", filters.taxonIds.join(","));
+  }
+  if (filters.speciesCodes.length > 0) {
+    params.set("speciesCodes", filters.speciesCodes.join(","));
+  }
+  if (filters.researchGradeOnly) {
+    params.set("researchGrade", "true");
+  }
+  if (filters.observer) {
+    params.set("observer", filters.observer);
+  }
+}
+
 /**
  * Fetch observations from server based on viewport and filters
+ * Pass the previous response's nextCursor to load the next page
  */
 export async function fetchObservations(
   viewport: ViewportParams,
-  filters?: FilterParams
-): Promise<Observation[]> {
+  filters?: FilterParams,
+  page?: PageParams
+): Promise<FetchObservationsResponse> {
   const params = new URLSearchParams({
     lat: viewport.lat.toString(),
     lng: viewport.lng.toString(),
@@ -29,19 +104,72 @@ export async function fetchObservations(
 
   // Add filter parameters if provided
   if (filters) {
-    if (filters.recency) {
-      params.set("recency", filters.recency);
-    }
-    if (filters.hasPhoto !== null) {
-      params.set("hasPhoto", filters.hasPhoto ? "true" : "false");
+    appendFilterParams(params, filters);
+  }
+
+  if (page?.cursor) {
+    params.set("cursor", page.cursor);
+  }
+  if (page?.limit) {
+    params.set("limit", page.limit.toString());
+  }
+
+  const url = `${API_URL}/observations?${params.toString()}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
     }
-    if (filters.taxa.length > 0) {
-      params.set("taxa", filters.taxa.join(","));
+
+    const parsed = observationsResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected observations response format");
     }
-    if (filters.provider.length > 0) {
-      params.set("provider", filters.provider.join(","));
+    // Every version bump is incompatible, so only the current one can be read
+    if (parsed.data.schemaVersion !== OBSERVATIONS_SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported observations schema version ${parsed.data.schemaVersion}. Update the app`
+      );
     }
+
+    // Drop individual bad records instead of failing the page
+    const data = parsed.data;
+    const { valid, dropped } = parseEach(wireObservationSchema, data.observations);
+    return {
+      schemaVersion: data.schemaVersion,
+      observations: valid,
+      providers: data.providers,
+      nextCursor: data.nextCursor,
+      diagnostics: { dropped: (data.diagnostics?.dropped ?? 0) + dropped },
+    };
+  } catch (error) {
+    console.error("Error fetching observations:", error);
+    throw error;
   }
+}
+
+/**
+ * Fetch server-side clusters for a wide viewport instead of every observation
+ */
+export async function fetchObservationClusters(
+  viewport: ViewportParams,
+  filters: FilterParams
+): Promise<FetchClustersResponse> {
+  const params = new URLSearchParams({
+    lat: viewport.lat.toString(),
+    lng: viewport.lng.toString(),
+    latDelta: viewport.latDelta.toString(),
+    lngDelta: viewport.lngDelta.toString(),
+    mode: "clusters",
+  });
+  appendFilterParams(params, filters);
 
   const url = `${API_URL}/observations?${params.toString()}`;
 
@@ -57,16 +185,28 @@ export async function fetchObservations(
       throw new Error(`API error: ${response.status} ${response.statusText}`);
     }
 
-    const data: FetchObservationsResponse = await response.json();
-    return data.observations || [];
+    const parsed = clustersResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected clusters response format");
+    }
+
+    const data = parsed.data;
+    return {
+      clusters: data.clusters,
+      total: data.total,
+      truncated: data.truncated,
+      providers: data.providers,
+      diagnostics: data.diagnostics ?? { dropped: 0 },
+    };
   } catch (error) {
-    console.error("Error fetching observations:", error);
+    console.error("Error fetching clusters:", error);
     throw error;
   }
 }
 
 /**
  * Fetch Wikipedia summary for an animal name
+ * Successful responses are saved for offline use
  */
 export async function fetchWikipediaSummary(
   title: string
@@ -94,11 +234,134 @@ export async function fetchWikipediaSummary(
       throw new Error(`API error: ${response.status} ${response.statusText}`);
     }
 
-    const data: WikipediaSummary = await response.json();
-    return data;
+    const parsed = wikipediaSummarySchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected Wikipedia summary format");
+    }
+
+    saveOfflineWikipedia(title, parsed.data);
+    return parsed.data;
   } catch (error) {
     console.error("Error fetching Wikipedia summary:", error);
-    return null;
+    // Fall back to a saved copy when offline
+    return await loadOfflineWikipedia(title);
+  }
+}
+
+/**
+ * Autocomplete species names across iNaturalist and eBird
+ */
+export async function searchTaxa(query: string): Promise<TaxonSearchResult[]> {
+  if (query.trim().length < 2) {
+    return [];
+  }
+
+  const url = `${API_URL}/taxa/search?q=${encodeURIComponent(query.trim())}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const parsed = taxaSearchResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected taxa search response format");
+    }
+
+    // Skip malformed results instead of failing the search
+    return parseEach(taxonSearchResultSchema, parsed.data.results).valid;
+  } catch (error) {
+    console.error("Error searching taxa:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch species usually seen in the viewport this month in past years
+ */
+export async function fetchSeasonal(
+  viewport: ViewportParams,
+  years?: number
+): Promise<SeasonalResponse> {
+  const params = new URLSearchParams({
+    lat: viewport.lat.toString(),
+    lng: viewport.lng.toString(),
+    latDelta: viewport.latDelta.toString(),
+    lngDelta: viewport.lngDelta.toString(),
+  });
+  if (years) {
+    params.set("years", years.toString());
+  }
+
+  const url = `${API_URL}/seasonal?${params.toString()}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const parsed = seasonalResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected seasonal response format");
+    }
+    return parsed.data;
+  } catch (error) {
+    console.error("Error fetching seasonal data:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch pre-binned observation density for a large viewport
+ */
+export async function fetchDensity(
+  viewport: ViewportParams,
+  filters: FilterParams
+): Promise<DensityResponse> {
+  const params = new URLSearchParams({
+    lat: viewport.lat.toString(),
+    lng: viewport.lng.toString(),
+    latDelta: viewport.latDelta.toString(),
+    lngDelta: viewport.lngDelta.toString(),
+  });
+  appendFilterParams(params, filters);
+
+  const url = `${API_URL}/density?${params.toString()}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const parsed = densityResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error("Unexpected density response format");
+    }
+    return parsed.data;
+  } catch (error) {
+    console.error("Error fetching density:", error);
+    throw error;
   }
 }
 
@@ -110,7 +373,7 @@ export async function fetchObservationById(id: string): Promise<Observation | nu
     return null;
   }
 
-  const url = `${API_URL}/share/${id}?format=json`;
+  const url = `${API_URL}/share/${encodeURIComponent(id)}?format=json`;
 
   try {
     const response = await fetch(url, {
@@ -129,10 +392,48 @@ export async function fetchObservationById(id: string): Promise<Observation | nu
     }
 
     const data: FetchObservationResponse = await response.json();
-    return data.observation || null;
+    // Validated as a wire observation; the upstream payload is kept as-is
+    return wireObservationSchema.safeParse(data?.observation).success
+      ? data.observation
+      : null;
   } catch (error) {
     console.error("Error fetching observation by ID:", error);
     return null;
   }
 }
 
+/**
+ * Check a watchlist for new nearby observations of watched species
+ * Matches with malformed observations are dropped
+ */
+export async function checkAlerts(request: AlertsRequest): Promise<AlertsResponse> {
+  const url = `${API_URL}/alerts`;
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = alertsResponseSchema.parse(await response.json());
+    const matches: AlertMatch[] = [];
+    data.matches.forEach((match) => {
+      const observation = wireObservationSchema.safeParse(match.observation);
+      if (observation.success) {
+        matches.push({ ...match, observation: observation.data });
+      }
+    });
+
+    return { ...data, matches };
+  } catch (error) {
+    console.error("Error checking alerts:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,316 @@
+import React, { useMemo, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from "react-native";
+import BottomSheet, { BottomSheetScrollView } from "@gorhom/bottom-sheet";
+import { Ionicons } from "@expo/vector-icons";
+import type { Region } from "react-native-maps";
+import type { Observation } from "../types/observation";
+import { ALERT_RADIUS_OPTIONS_KM, useAlertStore } from "../store/alertStore";
+import type { AlertNotificationStatus } from "../store/alertStore";
+import { getTaxaColor } from "../utils/colors";
+import { useTheme } from "../utils/theme";
+
+interface AlertsSheetProps {
+  visible: boolean;
+  region: Region | null; // Current map region, saved by "Use map center"
+  userLocation: { latitude: number; longitude: number } | null;
+  onSelectObservation: (observation: Observation) => void;
+  onClose: () => void;
+}
+
+const NOTIFICATION_HINTS: Record<NonNullable<AlertNotificationStatus>, string> = {
+  background: "Checked in the background as often as the system allows; new sightings arrive as notifications",
+  foreground: "Checked while the app is open; new sightings arrive as notifications",
+  denied: "Notifications are off. Turn them on in Settings to hear about new sightings",
+};
+
+function formatCheckedAt(checkedAt: string): string {
+  try {
+    return new Date(checkedAt).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  } catch {
+    return checkedAt;
+  }
+}
+
+export const AlertsSheet: React.FC<AlertsSheetProps> = ({
+  visible,
+  region,
+  userLocation,
+  onSelectObservation,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const snapPoints = useMemo(() => ["60%", "90%"], []);
+  const sheetRef = React.useRef<BottomSheet>(null);
+  const {
+    species,
+    radiusKm,
+    location,
+    recentMatches,
+    lastCheckedAt,
+    isChecking,
+    error,
+    notificationStatus,
+    unwatchSpecies,
+    setRadius,
+    setLocation,
+    checkNow,
+  } = useAlertStore();
+
+  // Control sheet visibility
+  useEffect(() => {
+    if (visible) {
+      sheetRef.current?.snapToIndex(0);
+    } else {
+      sheetRef.current?.close();
+    }
+  }, [visible]);
+
+  const handleUseMapCenter = () => {
+    if (!region) return;
+    setLocation({
+      lat: region.latitude,
+      lng: region.longitude,
+      name: `${region.latitude.toFixed(3)}, ${region.longitude.toFixed(3)}`,
+    });
+  };
+
+  const handleSelectMatch = (observation: Observation) => {
+    onSelectObservation(observation);
+    onClose();
+  };
+
+  return (
+    <BottomSheet
+      ref={sheetRef}
+      index={-1}
+      snapPoints={snapPoints}
+      enablePanDownToClose
+      onClose={onClose}
+      enableDynamicSizing={false}
+      handleIndicatorStyle={{ backgroundColor: theme.border, width: 80 }}
+      backgroundStyle={{ backgroundColor: theme.background.card }}
+      enableOverDrag={false}
+    >
+      <BottomSheetScrollView contentContainerStyle={styles.scrollContentContainer}>
+        <Text style={[styles.title, { color: theme.text.primary }]}>Species Alerts</Text>
+
+        {/* Watchlist */}
+        <Text style={[styles.sectionTitle, { color: theme.text.secondary }]}>Watching</Text>
+        {species.length === 0 ? (
+          <Text style={[styles.hint, { color: theme.text.muted }]}>
+            Tap the bell on an observation to get alerts when its species is reported nearby
+          </Text>
+        ) : (
+          species.map((watched) => (
+            <View key={watched.key} style={[styles.row, { borderBottomColor: theme.border }]}>
+              <View style={styles.rowInfo}>
+                <Text style={[styles.rowTitle, { color: theme.text.primary }]} numberOfLines={1}>
+                  {watched.commonName || watched.scientificName || watched.key}
+                </Text>
+                <Text style={[styles.rowMeta, { color: theme.text.muted }]}>
+                  {[watched.inatTaxonId !== undefined && "iNaturalist", watched.ebirdSpeciesCode && "eBird"]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => unwatchSpecies(watched.key)}
+              >
+                <Ionicons name="trash-outline" size={20} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        {/* Radius */}
+        <Text style={[styles.sectionTitle, { color: theme.text.secondary }]}>Within</Text>
+        <View style={styles.chipRow}>
+          {ALERT_RADIUS_OPTIONS_KM.map((option) => {
+            const isSelected = option === radiusKm;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  { backgroundColor: isSelected ? "#3B82F6" : theme.background.button },
+                ]}
+                onPress={() => setRadius(option)}
+              >
+                <Text style={[styles.chipText, { color: isSelected ? "#FFFFFF" : theme.text.primary }]}>
+                  {option} km
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Location */}
+        <Text style={[styles.sectionTitle, { color: theme.text.secondary }]}>Around</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              { backgroundColor: !location ? "#3B82F6" : theme.background.button },
+            ]}
+            onPress={() => setLocation(null)}
+          >
+            <Text style={[styles.chipText, { color: !location ? "#FFFFFF" : theme.text.primary }]}>
+              My location
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              { backgroundColor: location ? "#3B82F6" : theme.background.button },
+            ]}
+            onPress={handleUseMapCenter}
+            disabled={!region}
+          >
+            <Text style={[styles.chipText, { color: location ? "#FFFFFF" : theme.text.primary }]}>
+              {location ? location.name || "Saved location" : "Map center"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.checkButton, (species.length === 0 || isChecking) && styles.checkButtonDisabled]}
+          onPress={() => checkNow(userLocation)}
+          disabled={species.length === 0 || isChecking}
+        >
+          {isChecking ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Ionicons name="refresh" size={18} color="#FFFFFF" />
+          )}
+          <Text style={styles.checkButtonText}>Check now</Text>
+        </TouchableOpacity>
+        <Text style={[styles.hint, { color: theme.text.muted }]}>
+          {lastCheckedAt
+            ? `Last checked ${formatCheckedAt(lastCheckedAt)}. `
+            : ""}
+          {NOTIFICATION_HINTS[notificationStatus ?? "foreground"]}
+        </Text>
+        {error && <Text style={[styles.hint, styles.errorText]}>{error}</Text>}
+
+        {/* Recent Matches */}
+        {recentMatches.length > 0 && (
+          <Text style={[styles.sectionTitle, { color: theme.text.secondary }]}>Recent alerts</Text>
+        )}
+        {recentMatches.map(({ observation, distanceKm }) => (
+          <TouchableOpacity
+            key={observation.id}
+            style={[styles.row, { borderBottomColor: theme.border }]}
+            onPress={() => handleSelectMatch(observation)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.colorDot, { backgroundColor: getTaxaColor(observation.taxaBucket) }]} />
+            <View style={styles.rowInfo}>
+              <Text style={[styles.rowTitle, { color: theme.text.primary }]} numberOfLines={1}>
+                {observation.commonName || observation.scientificName || "Unknown species"}
+              </Text>
+              <Text style={[styles.rowMeta, { color: theme.text.secondary }]} numberOfLines={1}>
+                {[`${distanceKm} km away`, observation.placeGuess].filter(Boolean).join(" · ")}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={theme.text.muted} />
+          </TouchableOpacity>
+        ))}
+      </BottomSheetScrollView>
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 40, // Extra padding for home bar
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  errorText: {
+    color: "#EF4444",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  rowMeta: {
+    fontSize: 13,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  checkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#3B82F6",
+    marginTop: 20,
+  },
+  checkButtonDisabled: {
+    opacity: 0.6,
+  },
+  checkButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,163 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { getTaxaColor } from "../utils/colors";
+import { describeDominantTaxa, getTaxaShares } from "../utils/clusters";
+import type { TaxaCounts } from "../utils/clusters";
+import { useTheme } from "../utils/theme";
+
+interface ClusterBreakdownProps {
+  count: number;
+  individuals?: number; // Reported individuals, when different from count
+  taxa: TaxaCounts;
+  onZoomIn: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Taxa counts for a tapped cluster, shown before zooming into it
+ */
+export const ClusterBreakdown: React.FC<ClusterBreakdownProps> = ({
+  count,
+  individuals,
+  taxa,
+  onZoomIn,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const shares = getTaxaShares(taxa);
+  const dominant = describeDominantTaxa(taxa);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.background.card,
+          shadowColor: theme.shadow.color,
+          shadowOpacity: theme.shadow.opacity,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, { color: theme.text.primary }]}>
+            {count} observations
+            {individuals !== undefined && individuals !== count && (
+              <Text style={{ color: theme.text.secondary }}> · {individuals} individuals</Text>
+            )}
+          </Text>
+          {dominant && (
+            <Text style={[styles.subtitle, { color: theme.text.secondary }]}>
+              {dominant}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity onPress={onClose} hitSlop={8}>
+          <Ionicons name="close" size={20} color={theme.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {shares.map((share) => (
+        <View key={share.taxaBucket} style={styles.row}>
+          <View style={[styles.colorDot, { backgroundColor: getTaxaColor(share.taxaBucket) }]} />
+          <Text style={[styles.taxaLabel, { color: theme.text.primary }]}>
+            {share.taxaBucket}
+          </Text>
+          <View style={[styles.barTrack, { backgroundColor: theme.background.button }]}>
+            <View
+              style={[
+                styles.barFill,
+                {
+                  width: `${share.fraction * 100}%`,
+                  backgroundColor: getTaxaColor(share.taxaBucket),
+                },
+              ]}
+            />
+          </View>
+          <Text style={[styles.countText, { color: theme.text.secondary }]}>{share.count}</Text>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.zoomButton} onPress={onZoomIn} activeOpacity={0.8}>
+        <Ionicons name="search" size={16} color="#FFFFFF" />
+        <Text style={styles.zoomButtonText}>Zoom in</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    bottom: 40,
+    left: 16,
+    right: 16,
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginBottom: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  taxaLabel: {
+    fontSize: 14,
+    width: 80,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  countText: {
+    fontSize: 14,
+    minWidth: 32,
+    textAlign: "right",
+  },
+  zoomButton: {
+    marginTop: 8,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#3B82F6",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  zoomButtonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -1,7 +1,11 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { View, Text, StyleSheet } from "react-native";
 import { Marker } from "react-native-maps";
+import Svg, { Circle } from "react-native-svg";
 import { useTheme } from "../utils/theme";
+import { getTaxaColor } from "../utils/colors";
+import { describeDominantTaxa, formatCount, getTaxaShares } from "../utils/clusters";
+import type { TaxaCounts } from "../utils/clusters";
 
 interface ClusterMarkerProps {
   coordinate: {
@@ -9,22 +13,50 @@ interface ClusterMarkerProps {
     longitude: number;
   };
   count: number;
+  individuals?: number; // Shown instead of count when provided
+  taxa?: TaxaCounts; // Drawn as donut segments when provided
   onPress: () => void;
+  cluster?: boolean; // false keeps react-native-map-clustering from grouping it again
 }
 
+const SIZE = 36;
+const RING_WIDTH = 5;
+const RADIUS = (SIZE - RING_WIDTH) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
 export const ClusterMarker: React.FC<ClusterMarkerProps> = ({
   coordinate,
   count,
+  individuals,
+  taxa,
   onPress,
 }) => {
   const theme = useTheme();
-  
+
+  // One arc per taxa bucket, largest first, starting at 12 o'clock
+  const segments = useMemo(() => {
+    if (!taxa) return [];
+    let offset = 0;
+    return getTaxaShares(taxa).map((share) => {
+      const length = share.fraction * CIRCUMFERENCE;
+      const segment = {
+        taxaBucket: share.taxaBucket,
+        color: getTaxaColor(share.taxaBucket),
+        dashArray: `${length} ${CIRCUMFERENCE - length}`,
+        dashOffset: -offset,
+      };
+      offset += length;
+      return segment;
+    });
+  }, [taxa]);
+
   return (
     <Marker
       coordinate={coordinate}
       onPress={onPress}
       tracksViewChanges={false}
       anchor={{ x: 0.5, y: 0.5 }}
+      title={taxa ? describeDominantTaxa(taxa) ?? undefined : undefined}
     >
       <View
         style={[
@@ -34,6 +66,25 @@ export const ClusterMarker: React.FC<ClusterMarkerProps> = ({
           },
         ]}
       >
+        {segments.length > 0 && (
+          <Svg width={SIZE} height={SIZE} style={StyleSheet.absoluteFill}>
+            {segments.map((segment) => (
+              <Circle
+                key={segment.taxaBucket}
+                cx={SIZE / 2}
+                cy={SIZE / 2}
+                r={RADIUS}
+                stroke={segment.color}
+                strokeWidth={RING_WIDTH}
+                strokeDasharray={segment.dashArray}
+                strokeDashoffset={segment.dashOffset}
+                fill="none"
+                rotation={-90}
+                origin={`${SIZE / 2}, ${SIZE / 2}`}
+              />
+            ))}
+          </Svg>
+        )}
         <Text
           style={[
             styles.count,
@@ -43,7 +94,7 @@ export const ClusterMarker: React.FC<ClusterMarkerProps> = ({
           ]}
           numberOfLines={1}
         >
-          {count}
+          {formatCount(individuals ?? count)}
         </Text>
       </View>
     </Marker>
@@ -52,9 +103,9 @@ export const ClusterMarker: React.FC<ClusterMarkerProps> = ({
 
 const styles = StyleSheet.create({
   container: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
+    width: SIZE,
+    height: SIZE,
+    borderRadius: SIZE / 2,
     alignItems: "center",
     justifyContent: "center",
     shadowColor: "#000",
@@ -68,4 +119,3 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
   },
 });
-
@@ -0,0 +1,63 @@
+import React, { useMemo } from "react";
+import { Polygon } from "react-native-maps";
+import type { DensityGrid } from "../types/density";
+import { getCellBounds } from "../utils/density";
+import { withAlpha } from "../utils/colors";
+
+interface DensityLayerProps {
+  grid: DensityGrid;
+  color?: string; // #RRGGBB
+}
+
+const MIN_OPACITY = 0.12;
+const MAX_OPACITY = 0.6;
+
+/**
+ * Shade grid cells by observation count
+ * Drawn as polygons since Apple Maps has no native heatmap
+ */
+export const DensityLayer: React.FC<DensityLayerProps> = ({
+  grid,
+  color = "#2563EB",
+}) => {
+  const cells = useMemo(() => {
+    if (grid.max === 0) return [];
+
+    const result: Array<{ key: string; coordinates: any[]; fillColor: string }> = [];
+    grid.counts.forEach((count, index) => {
+      if (count === 0) return;
+      const row = Math.floor(index / grid.cols);
+      const col = index % grid.cols;
+      const bounds = getCellBounds(grid, row, col);
+      // Square root keeps a few busy cells from washing out the rest
+      const opacity =
+        MIN_OPACITY + (MAX_OPACITY - MIN_OPACITY) * Math.sqrt(count / grid.max);
+
+      result.push({
+        key: `${row}-${col}`,
+        coordinates: [
+          { latitude: bounds.north, longitude: bounds.west },
+          { latitude: bounds.north, longitude: bounds.east },
+          { latitude: bounds.south, longitude: bounds.east },
+          { latitude: bounds.south, longitude: bounds.west },
+        ],
+        fillColor: withAlpha(color, opacity),
+      });
+    });
+    return result;
+  }, [grid, color]);
+
+  return (
+    <>
+      {cells.map((cell) => (
+        <Polygon
+          key={cell.key}
+          coordinates={cell.coordinates}
+          fillColor={cell.fillColor}
+          strokeWidth={0}
+          tappable={false}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+import React from "react";
+import { ScrollView, Text, StyleSheet, TouchableOpacity } from "react-native";
+import type { TaxaBucket } from "../types/observation";
+import { TAXA_COLORS } from "../utils/colors";
+import { useTheme } from "../utils/theme";
+
+// Heatmap color when every taxa bucket is shown
+export const ALL_TAXA_DENSITY_COLOR = "#DC2626";
+
+interface DensityTaxaPickerProps {
+  selected: TaxaBucket | null;
+  onSelect: (taxa: TaxaBucket | null) => void;
+}
+
+/**
+ * Chips choosing which taxa bucket the heatmap shows, in its color
+ */
+export const DensityTaxaPicker: React.FC<DensityTaxaPickerProps> = ({
+  selected,
+  onSelect,
+}) => {
+  const theme = useTheme();
+  const taxaBuckets = Object.keys(TAXA_COLORS) as TaxaBucket[];
+  const options: Array<{ taxa: TaxaBucket | null; label: string; color: string }> = [
+    { taxa: null, label: "All", color: ALL_TAXA_DENSITY_COLOR },
+    ...taxaBuckets.map((taxa) => ({ taxa, label: taxa, color: TAXA_COLORS[taxa] })),
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {options.map((option) => {
+        const isSelected = option.taxa === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              {
+                borderColor: option.color,
+                backgroundColor: isSelected ? option.color : theme.background.card,
+                shadowColor: theme.shadow.color,
+                shadowOpacity: theme.shadow.opacity,
+              },
+            ]}
+            onPress={() => onSelect(option.taxa)}
+            activeOpacity={0.8}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: isSelected ? "#FFFFFF" : theme.text.primary },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    bottom: 40,
+    left: 0,
+    right: 0,
+  },
+  content: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -5,9 +5,14 @@ import { useTheme } from "../utils/theme";
 interface ErrorStateProps {
   error: string;
   onRetry?: () => void;
+  variant?: "error" | "warning"; // warning = non-blocking partial failure
 }
 
-export const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry }) => {
+export const ErrorState: React.FC<ErrorStateProps> = ({
+  error,
+  onRetry,
+  variant = "error",
+}) => {
   const theme = useTheme();
 
   const dynamicStyles = {
@@ -21,7 +26,15 @@ export const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry }) => {
 
   return (
     <View style={dynamicStyles.container}>
-      <Text style={styles.errorText}>{error}</Text>
+      <Text
+        style={[
+          styles.errorText,
+          variant === "warning" && styles.warningText,
+          !onRetry && styles.textOnly,
+        ]}
+      >
+        {error}
+      </Text>
       {onRetry && (
         <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
           <Text style={styles.retryText}>Retry</Text>
@@ -34,7 +47,7 @@ export const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry }) => {
 const styles = StyleSheet.create({
   container: {
     position: "absolute",
-    top: 100,
+    top: 226, // Below the search bar and map controls
     left: 16,
     right: 16,
     padding: 16,
@@ -49,6 +62,12 @@ const styles = StyleSheet.create({
     color: "#DC2626",
     marginBottom: 12,
   },
+  warningText: {
+    color: "#B45309",
+  },
+  textOnly: {
+    marginBottom: 0,
+  },
   retryButton: {
     backgroundColor: "#3B82F6",
     paddingHorizontal: 16,
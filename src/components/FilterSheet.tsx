@@ -6,12 +6,24 @@ import {
   TouchableOpacity,
   Switch,
   ScrollView,
+  Platform,
 } from "react-native";
-import BottomSheet, { BottomSheetScrollView, BottomSheetView } from "@gorhom/bottom-sheet";
+import BottomSheet, {
+  BottomSheetScrollView,
+  BottomSheetTextInput,
+  BottomSheetView,
+} from "@gorhom/bottom-sheet";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import type { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import type { FilterParams, RecencyFilter } from "../types/filters";
 import type { TaxaBucket, Provider } from "../types/observation";
 import { TAXA_COLORS } from "../utils/colors";
-import { DEFAULT_FILTERS, countActiveFilters } from "../types/filters";
+import {
+  DEFAULT_FILTERS,
+  countActiveFilters,
+  hasCustomDateRange,
+} from "../types/filters";
+import { PROVIDER_INFO } from "../types/provider";
 import { useTheme } from "../utils/theme";
 
 interface FilterSheetProps {
@@ -27,6 +39,34 @@ const RECENCY_OPTIONS: Array<{ value: RecencyFilter; label: string }> = [
   { value: "this_month", label: "This Month" },
 ];
 
+const DEFAULT_CUSTOM_RANGE_DAYS = 7;
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse YYYY-MM-DD as a local date
+ */
+function parseDateString(value: string): Date {
+  const [year, month, day] = value.split("-").map((part) => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+}
+
+function formatDateLabel(value: string | null): string {
+  if (!value) return "Today";
+  return parseDateString(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
 const TAXA_OPTIONS: TaxaBucket[] = [
   "Bird",
   "Mammal",
@@ -41,10 +81,8 @@ const TAXA_OPTIONS: TaxaBucket[] = [
   "Other",
 ];
 
-const PROVIDER_OPTIONS: Array<{ value: Provider; label: string }> = [
-  { value: "ebird", label: "eBird" },
-  { value: "inat", label: "iNaturalist" },
-];
+const PROVIDER_OPTIONS: Array<{ value: Provider; label: string }> =
+  PROVIDER_INFO.map((info) => ({ value: info.id, label: info.label }));
 
 export const FilterSheet: React.FC<FilterSheetProps> = ({
   visible,
@@ -56,6 +94,7 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   const snapPoints = useMemo(() => ["80%"], []);
   const sheetRef = React.useRef<BottomSheet>(null);
   const [localFilters, setLocalFilters] = useState<FilterParams>(filters);
+  const [pickerField, setPickerField] = useState<"since" | "until" | null>(null);
 
   // Update local filters when prop changes
   useEffect(() => {
@@ -72,13 +111,41 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   }, [visible]);
 
   const handleRecencyChange = (value: RecencyFilter) => {
-    setLocalFilters({ ...localFilters, recency: value });
+    setLocalFilters({ ...localFilters, recency: value, since: null, until: null });
+    setPickerField(null);
+  };
+
+  const handleCustomRange = () => {
+    if (hasCustomDateRange(localFilters)) return;
+    const since = new Date();
+    since.setDate(since.getDate() - DEFAULT_CUSTOM_RANGE_DAYS);
+    setLocalFilters({ ...localFilters, since: toDateString(since), until: null });
   };
 
+  const handleDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    const field = pickerField;
+    setPickerField(null);
+    if (event.type !== "set" || !date || !field) return;
+
+    const value = toDateString(date);
+    // Until today is stored as null so the range keeps moving with the calendar
+    const isToday = value === toDateString(new Date());
+    setLocalFilters({
+      ...localFilters,
+      [field]: field === "until" && isToday ? null : value,
+    });
+  };
+
+  const isCustomRange = hasCustomDateRange(localFilters);
+
   const handleHasPhotoChange = (value: boolean | null) => {
     setLocalFilters({ ...localFilters, hasPhoto: value });
   };
 
+  const handleObserverChange = (value: string) => {
+    setLocalFilters({ ...localFilters, observer: value.trim() ? value : null });
+  };
+
   const handleTaxaToggle = (taxa: TaxaBucket) => {
     const currentTaxa = localFilters.taxa;
     const newTaxa = currentTaxa.includes(taxa)
@@ -96,7 +163,10 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   };
 
   const handleApply = () => {
-    onFiltersChange(localFilters);
+    onFiltersChange({
+      ...localFilters,
+      observer: localFilters.observer?.trim() || null,
+    });
     onClose();
   };
 
@@ -223,21 +293,92 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
                   key={option.value}
                   style={[
                     dynamicStyles.recencyButton,
-                    localFilters.recency === option.value && styles.recencyButtonActive,
+                    !isCustomRange &&
+                      localFilters.recency === option.value &&
+                      styles.recencyButtonActive,
                   ]}
                   onPress={() => handleRecencyChange(option.value)}
                 >
                   <Text
                     style={[
                       dynamicStyles.recencyButtonText,
-                      localFilters.recency === option.value && styles.recencyButtonTextActive,
+                      !isCustomRange &&
+                        localFilters.recency === option.value &&
+                        styles.recencyButtonTextActive,
                     ]}
                   >
                     {option.label}
                   </Text>
                 </TouchableOpacity>
               ))}
+              <TouchableOpacity
+                style={[
+                  dynamicStyles.recencyButton,
+                  isCustomRange && styles.recencyButtonActive,
+                ]}
+                onPress={handleCustomRange}
+              >
+                <Text
+                  style={[
+                    dynamicStyles.recencyButtonText,
+                    isCustomRange && styles.recencyButtonTextActive,
+                  ]}
+                >
+                  Custom
+                </Text>
+              </TouchableOpacity>
             </View>
+
+            {isCustomRange && (
+              <View style={styles.dateRangeContainer}>
+                <View style={styles.switchRow}>
+                  <Text style={dynamicStyles.switchLabel}>From</Text>
+                  <TouchableOpacity
+                    style={dynamicStyles.recencyButton}
+                    onPress={() => setPickerField("since")}
+                  >
+                    <Text style={dynamicStyles.recencyButtonText}>
+                      {formatDateLabel(localFilters.since)}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.switchRow}>
+                  <Text style={dynamicStyles.switchLabel}>To</Text>
+                  <TouchableOpacity
+                    style={dynamicStyles.recencyButton}
+                    onPress={() => setPickerField("until")}
+                  >
+                    <Text style={dynamicStyles.recencyButtonText}>
+                      {formatDateLabel(localFilters.until)}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {pickerField && (
+                  <DateTimePicker
+                    value={
+                      pickerField === "since"
+                        ? parseDateString(localFilters.since!)
+                        : localFilters.until
+                          ? parseDateString(localFilters.until)
+                          : new Date()
+                    }
+                    mode="date"
+                    display={Platform.OS === "ios" ? "inline" : "default"}
+                    minimumDate={
+                      pickerField === "until"
+                        ? parseDateString(localFilters.since!)
+                        : undefined
+                    }
+                    maximumDate={
+                      pickerField === "since" && localFilters.until
+                        ? parseDateString(localFilters.until)
+                        : new Date()
+                    }
+                    onChange={handleDateChange}
+                  />
+                )}
+              </View>
+            )}
           </View>
 
           {/* Photo Filter */}
@@ -255,6 +396,50 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
             </View>
           </View>
 
+          {/* Quality Filter */}
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabelGroup}>
+                <Text style={dynamicStyles.switchLabel}>Research Grade Only</Text>
+                <Text style={[styles.switchHint, { color: theme.text.muted }]}>
+                  Identifications confirmed by the iNaturalist community
+                </Text>
+              </View>
+              <Switch
+                value={localFilters.researchGradeOnly}
+                onValueChange={(value) =>
+                  setLocalFilters({ ...localFilters, researchGradeOnly: value })
+                }
+                trackColor={{ false: theme.border, true: "#3B82F6" }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+          </View>
+
+          {/* Observer Filter */}
+          <View style={styles.section}>
+            <Text style={dynamicStyles.sectionTitle}>Observer</Text>
+            <BottomSheetTextInput
+              style={[
+                styles.textInput,
+                {
+                  color: theme.text.primary,
+                  backgroundColor: theme.background.button,
+                  borderColor: theme.border,
+                },
+              ]}
+              value={localFilters.observer ?? ""}
+              onChangeText={handleObserverChange}
+              placeholder="Name or @username"
+              placeholderTextColor={theme.text.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={[styles.switchHint, { color: theme.text.muted }]}>
+              Names match usernames and display names; @username only searches iNaturalist
+            </Text>
+          </View>
+
           {/* Taxa Filter */}
           <View style={styles.section}>
             <Text style={dynamicStyles.sectionTitle}>Categories</Text>
@@ -364,6 +549,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#E5E7EB",
   },
+  dateRangeContainer: {
+    marginTop: 16,
+  },
   recencyButtonActive: {
     backgroundColor: "#3B82F6",
     borderColor: "#3B82F6",
@@ -382,6 +570,21 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 12,
   },
+  switchLabelGroup: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchHint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  textInput: {
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
   switchLabel: {
     fontSize: 16,
     color: "#111827",
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, StyleSheet, SectionList, FlatList, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { Observation } from "../types/observation";
+import type { LifeListEntry } from "../types/lifeList";
+import { getProviderLabel } from "../types/provider";
+import { useLifeListStore } from "../store/lifeListStore";
+import { getTaxaColor } from "../utils/colors";
+import { formatSeenDate, groupLifeList } from "../utils/lifeList";
+import { useTheme } from "../utils/theme";
+
+type LifeListTab = "species" | "starred";
+
+interface LifeListScreenProps {
+  onSelectObservation: (observation: Observation) => void;
+}
+
+/**
+ * Species the user has seen, grouped by taxa, and their starred observations
+ */
+export const LifeListScreen: React.FC<LifeListScreenProps> = ({ onSelectObservation }) => {
+  const theme = useTheme();
+  const [tab, setTab] = useState<LifeListTab>("species");
+  const seenSpecies = useLifeListStore((state) => state.seenSpecies);
+  const favorites = useLifeListStore((state) => state.favorites);
+  const unmarkSeen = useLifeListStore((state) => state.unmarkSeen);
+
+  const sections = useMemo(() => groupLifeList(seenSpecies), [seenSpecies]);
+  const starred = useMemo(
+    () =>
+      Object.values(favorites).sort((a, b) =>
+        (b.observedAt || "").localeCompare(a.observedAt || "")
+      ),
+    [favorites]
+  );
+  const speciesCount = Object.keys(seenSpecies).length;
+
+  const renderSpecies = ({ item }: { item: LifeListEntry }) => (
+    <View style={[styles.row, { borderBottomColor: theme.border }]}>
+      <View style={[styles.colorDot, { backgroundColor: getTaxaColor(item.taxaBucket) }]} />
+      <View style={styles.names}>
+        <Text style={[styles.commonName, { color: theme.text.primary }]} numberOfLines={1}>
+          {item.commonName || item.scientificName || "Unknown species"}
+        </Text>
+        {item.commonName && item.scientificName && (
+          <Text style={[styles.scientificName, { color: theme.text.secondary }]} numberOfLines={1}>
+            {item.scientificName}
+          </Text>
+        )}
+        <Text style={[styles.meta, { color: theme.text.muted }]}>
+          First seen {formatSeenDate(item.firstSeenAt)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => unmarkSeen(item.key)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons name="close-circle-outline" size={22} color={theme.text.muted} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderStarred = ({ item }: { item: Observation }) => (
+    <TouchableOpacity
+      style={[styles.row, { borderBottomColor: theme.border }]}
+      onPress={() => onSelectObservation(item)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.colorDot, { backgroundColor: getTaxaColor(item.taxaBucket) }]} />
+      <View style={styles.names}>
+        <Text style={[styles.commonName, { color: theme.text.primary }]} numberOfLines={1}>
+          {item.commonName || item.scientificName || "Unknown species"}
+        </Text>
+        <Text style={[styles.meta, { color: theme.text.muted }]} numberOfLines={1}>
+          {[
+            item.observedAt && formatSeenDate(item.observedAt),
+            item.placeGuess,
+            getProviderLabel(item.provider),
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color={theme.text.muted} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <View style={[styles.tabs, { backgroundColor: theme.background.button }]}>
+        {(["species", "starred"] as LifeListTab[]).map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.tab, tab === value && { backgroundColor: theme.background.card }]}
+            onPress={() => setTab(value)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.tabText, { color: theme.text.primary }]}>
+              {value === "species" ? `Species (${speciesCount})` : `Starred (${starred.length})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === "species" ? (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.key}
+          renderItem={renderSpecies}
+          renderSectionHeader={({ section }) => (
+            <Text
+              style={[
+                styles.sectionHeader,
+                { color: theme.text.secondary, backgroundColor: theme.background.secondary },
+              ]}
+            >
+              {section.taxaBucket} · {section.data.length}
+            </Text>
+          )}
+          stickySectionHeadersEnabled
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: theme.text.muted }]}>
+              Mark species as seen from an observation to start your life list
+            </Text>
+          }
+        />
+      ) : (
+        <FlatList
+          data={starred}
+          keyExtractor={(item) => item.id}
+          renderItem={renderStarred}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: theme.text.muted }]}>
+              Star observations to find them here
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  tabs: {
+    flexDirection: "row",
+    margin: 16,
+    padding: 4,
+    borderRadius: 10,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  sectionHeader: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  names: {
+    flex: 1,
+  },
+  commonName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  scientificName: {
+    fontSize: 14,
+    fontStyle: "italic",
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 24,
+    paddingHorizontal: 32,
+  },
+});
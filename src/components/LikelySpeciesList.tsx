@@ -0,0 +1,125 @@
+import React from "react";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from "react-native";
+import type { SeasonalResponse, SeasonalSpecies } from "../types/seasonal";
+import { getTaxaColor } from "../utils/colors";
+import { useTheme } from "../utils/theme";
+
+interface LikelySpeciesListProps {
+  data: SeasonalResponse | null;
+  onSelectSpecies: (species: SeasonalSpecies) => void;
+}
+
+function formatMonth(month: number): string {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleDateString("en-US", {
+    month: "long",
+    timeZone: "UTC",
+  });
+}
+
+export const LikelySpeciesList: React.FC<LikelySpeciesListProps> = ({
+  data,
+  onSelectSpecies,
+}) => {
+  const theme = useTheme();
+  const species = data?.species ?? [];
+  const yearCount = data?.years.length ?? 0;
+
+  const renderItem = ({ item }: { item: SeasonalSpecies }) => (
+    <TouchableOpacity
+      style={[styles.row, { borderBottomColor: theme.border }]}
+      onPress={() => onSelectSpecies(item)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.colorDot, { backgroundColor: getTaxaColor(item.taxaBucket) }]} />
+      <View style={styles.names}>
+        <Text style={[styles.commonName, { color: theme.text.primary }]} numberOfLines={1}>
+          {item.commonName || item.scientificName}
+        </Text>
+        {item.commonName && (
+          <Text style={[styles.scientificName, { color: theme.text.secondary }]} numberOfLines={1}>
+            {item.scientificName}
+          </Text>
+        )}
+        <Text style={[styles.meta, { color: theme.text.muted }]} numberOfLines={1}>
+          Seen in {item.yearsSeen} of {yearCount} years · {item.count} records
+        </Text>
+      </View>
+      <Text style={[styles.frequency, { color: theme.text.primary }]}>
+        {Math.round(item.frequency * 100)}%
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Text style={[styles.summary, { color: theme.text.secondary }]}>
+        {data
+          ? `Usually here in ${formatMonth(data.month)} · ${species.length} species over ${yearCount} years`
+          : "Loading what's usually here..."}
+      </Text>
+      <FlatList
+        data={species}
+        keyExtractor={(item) => item.key}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          data ? (
+            <Text style={[styles.emptyText, { color: theme.text.muted }]}>
+              No past records for this area
+            </Text>
+          ) : null
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    paddingTop: 230, // Below the map controls
+  },
+  summary: {
+    fontSize: 14,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  names: {
+    flex: 1,
+  },
+  commonName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  scientificName: {
+    fontSize: 14,
+    fontStyle: "italic",
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  frequency: {
+    fontSize: 16,
+    fontWeight: "600",
+    minWidth: 44,
+    textAlign: "right",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 24,
+  },
+});
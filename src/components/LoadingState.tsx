@@ -35,7 +35,7 @@ export const LoadingState: React.FC<LoadingStateProps> = ({
 const styles = StyleSheet.create({
   container: {
     position: "absolute",
-    top: 70,
+    top: 174, // Below the search bar and map controls
     left: 16,
     flexDirection: "row",
     alignItems: "center",
@@ -1,21 +1,55 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { View, StyleSheet, TouchableOpacity, Text } from "react-native";
+import { View, StyleSheet, TouchableOpacity, Text, Share, AppState } from "react-native";
 import { Region, Marker } from "react-native-maps";
 import ClusteredMapView from "react-native-map-clustering";
 import * as Location from "expo-location";
 import * as Linking from "expo-linking";
+import * as Notifications from "expo-notifications";
+import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useObservationStore } from "../store/observationStore";
+import { useSeasonalStore } from "../store/seasonalStore";
+import { useDensityStore } from "../store/densityStore";
+import { hasSeenSpecies, useLifeListStore } from "../store/lifeListStore";
+import { useAlertStore } from "../store/alertStore";
+import {
+  getNotificationObservationId,
+  isAlertCheckDue,
+  notifyAlertMatches,
+  syncAlertNotifications,
+} from "../utils/alertNotifications";
 import { fetchObservationById } from "../api/client";
 import { ObservationMarker } from "./ObservationMarker";
 import { ClusterMarker } from "./ClusterMarker";
-import { DEFAULT_REGION } from "../utils/viewport";
+import { ClusterBreakdown } from "./ClusterBreakdown";
+import {
+  DEFAULT_REGION,
+  isWideViewport,
+  regionToViewportParams,
+  viewportParamsToRegion,
+} from "../utils/viewport";
+import { getMapViewUrl, isMapViewPath, parseMapViewParams } from "../utils/share";
 import { ObservationSheet } from "./ObservationSheet";
 import { LoadingState } from "./LoadingState";
 import { ErrorState } from "./ErrorState";
 import { ColorLegend } from "./ColorLegend";
 import { FilterSheet } from "./FilterSheet";
+import { SavedAreasSheet } from "./SavedAreasSheet";
+import { AlertsSheet } from "./AlertsSheet";
+import { SpeciesList } from "./SpeciesList";
+import { SpeciesSearchBar } from "./SpeciesSearchBar";
+import { LikelySpeciesList } from "./LikelySpeciesList";
+import { DensityLayer } from "./DensityLayer";
+import { ALL_TAXA_DENSITY_COLOR, DensityTaxaPicker } from "./DensityTaxaPicker";
+import type { SeasonalSpecies } from "../types/seasonal";
+import type { ObservationCluster } from "../types/cluster";
 import { countActiveFilters } from "../types/filters";
+import { describeProviderFailures } from "../types/provider";
+import { getSpeciesKey } from "../utils/species";
+import { binPoints } from "../utils/density";
+import { getTaxaColor } from "../utils/colors";
+import { countIndividuals, countTaxa } from "../utils/clusters";
+import type { TaxaCounts } from "../utils/clusters";
 import { useTheme } from "../utils/theme";
 
 // Custom map style to hide businesses but keep landmarks and parks
@@ -59,6 +93,9 @@ const CUSTOM_MAP_STYLE = [
   },
 ];
 
+// Heatmap cells along the longer side of the viewport
+const HEATMAP_CELLS = 32;
+
 // Debounce utility
 function useDebounce<T extends (...args: any[]) => void>(
   callback: T,
@@ -79,6 +116,22 @@ function useDebounce<T extends (...args: any[]) => void>(
   );
 }
 
+/**
+ * Format when offline data was saved, e.g. "Jun 3, 4:05 PM"
+ */
+function formatSavedAt(savedAt: string): string {
+  try {
+    return new Date(savedAt).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  } catch {
+    return savedAt;
+  }
+}
+
 export const MapScreen: React.FC = () => {
   const theme = useTheme();
   const {
@@ -86,18 +139,56 @@ export const MapScreen: React.FC = () => {
     selectedObservation,
     viewport,
     isLoading,
+    isLoadingMore,
     error,
+    providerStatus,
+    offlineSince,
     filters,
+    highlightedSpecies,
+    clusters,
     fetchObservationsForViewport,
     setSelectedObservation,
     setViewport,
     setFilters,
+    setHighlightedSpecies,
     clearError,
   } = useObservationStore();
+  const {
+    enabled: seasonalMode,
+    data: seasonalData,
+    isLoading: isLoadingSeasonal,
+    error: seasonalError,
+    setEnabled: setSeasonalMode,
+    fetchForViewport: fetchSeasonalForViewport,
+    clearError: clearSeasonalError,
+  } = useSeasonalStore();
+  const {
+    enabled: heatmapEnabled,
+    taxa: heatmapTaxa,
+    serverDensity,
+    setEnabled: setHeatmapEnabled,
+    setTaxa: setHeatmapTaxa,
+    fetchForViewport: fetchDensityForViewport,
+  } = useDensityStore();
+
+  const router = useRouter();
+  const seenSpecies = useLifeListStore((state) => state.seenSpecies);
+  // Until the user starts a life list, every species would be new
+  const hasLifeList = Object.keys(seenSpecies).length > 0;
 
   const mapRef = useRef<any>(null);
+  const superClusterRef = useRef<any>(null); // Filled by ClusteredMapView
   const [showLegend, setShowLegend] = useState(false);
   const [showFilterSheet, setShowFilterSheet] = useState(false);
+  const [showSavedAreas, setShowSavedAreas] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showSpeciesList, setShowSpeciesList] = useState(false);
+  const [clusterBreakdown, setClusterBreakdown] = useState<{
+    count: number;
+    individuals: number;
+    taxa: TaxaCounts;
+    zoomIn: () => void;
+  } | null>(null);
   const isZoomingIntoClusterRef = useRef(false);
   const lastCenteredObservationIdRef = useRef<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
@@ -123,9 +214,68 @@ export const MapScreen: React.FC = () => {
     });
   }, [observations, viewport]);
 
+  // Observations strictly inside the viewport, for the species list
+  const visibleObservations = React.useMemo(() => {
+    if (!viewport) return observations;
+    return observations.filter(
+      (obs) =>
+        Math.abs(obs.lat - viewport.latitude) <= viewport.latitudeDelta / 2 &&
+        Math.abs(obs.lng - viewport.longitude) <= viewport.longitudeDelta / 2
+    );
+  }, [observations, viewport]);
+
+  // Only show the highlighted species' markers when one is picked from the list
+  const highlightedObservations = React.useMemo(() => {
+    if (!highlightedSpecies) return filteredObservations;
+    return filteredObservations.filter((obs) => getSpeciesKey(obs) === highlightedSpecies);
+  }, [filteredObservations, highlightedSpecies]);
+
+  const highlightedName = React.useMemo(() => {
+    if (!highlightedSpecies) return null;
+    const match = observations.find((obs) => getSpeciesKey(obs) === highlightedSpecies);
+    return match?.commonName || match?.scientificName || "Selected species";
+  }, [observations, highlightedSpecies]);
+
+  // Heatmap of every loaded observation in view, or of server-binned
+  // density when the viewport is too wide for loaded observations to be representative
+  const heatmapGrid = React.useMemo(() => {
+    if (!heatmapEnabled || seasonalMode || !viewport) return null;
+
+    if (isWideViewport(viewport) && serverDensity) {
+      return heatmapTaxa ? serverDensity.taxa[heatmapTaxa] ?? null : serverDensity.grid;
+    }
+
+    const points = heatmapTaxa
+      ? visibleObservations.filter((obs) => obs.taxaBucket === heatmapTaxa)
+      : visibleObservations;
+    return binPoints(
+      points,
+      {
+        north: viewport.latitude + viewport.latitudeDelta / 2,
+        south: viewport.latitude - viewport.latitudeDelta / 2,
+        east: viewport.longitude + viewport.longitudeDelta / 2,
+        west: viewport.longitude - viewport.longitudeDelta / 2,
+      },
+      HEATMAP_CELLS
+    );
+  }, [heatmapEnabled, seasonalMode, viewport, serverDensity, heatmapTaxa, visibleObservations]);
+
+  // Zoomed out and online, the server sends clusters instead of observations
+  const showServerClusters =
+    !seasonalMode &&
+    !heatmapEnabled &&
+    !offlineSince &&
+    viewport !== null &&
+    isWideViewport(viewport);
+
+  // Non-blocking notice when some providers failed but others returned data
+  const providerWarning = describeProviderFailures(
+    seasonalMode ? seasonalData?.providers ?? {} : providerStatus
+  );
+
   // Limit markers at low zoom for performance
   const MAX_MARKERS = 500;
-  const baseObservations = filteredObservations.slice(0, MAX_MARKERS);
+  const baseObservations = highlightedObservations.slice(0, MAX_MARKERS);
 
   // Spread out overlapping markers when clustering is disabled (zoomed in)
   // This prevents markers from stacking on top of each other
@@ -201,11 +351,26 @@ export const MapScreen: React.FC = () => {
 
   // Debounced fetch function (500-800ms delay)
   const debouncedFetch = useDebounce(fetchObservationsForViewport, 600);
+  const debouncedSeasonalFetch = useDebounce(fetchSeasonalForViewport, 600);
+  const debouncedDensityFetch = useDebounce(fetchDensityForViewport, 600);
+
+  // Wide viewports need server-binned density while the heatmap is shown
+  useEffect(() => {
+    if (
+      heatmapEnabled &&
+      !seasonalMode &&
+      viewport &&
+      isWideViewport(viewport)
+    ) {
+      debouncedDensityFetch(viewport, filters);
+    }
+  }, [heatmapEnabled, seasonalMode, viewport, filters]);
 
   // Handle region change
   const handleRegionChangeComplete = useCallback(
     (region: Region, details?: any, markers?: any[]) => {
       setViewport(region);
+      setClusterBreakdown(null); // Clusters regroup at the new zoom
       
       // Don't refetch if we're programmatically zooming into a cluster
       // This prevents markers from disappearing when zooming in
@@ -217,9 +382,13 @@ export const MapScreen: React.FC = () => {
         return;
       }
       
-      debouncedFetch(region);
+      if (seasonalMode) {
+        debouncedSeasonalFetch(region);
+      } else {
+        debouncedFetch(region);
+      }
     },
-    [debouncedFetch, setViewport]
+    [debouncedFetch, debouncedSeasonalFetch, seasonalMode, setViewport]
   );
 
   // Get user location
@@ -245,6 +414,64 @@ export const MapScreen: React.FC = () => {
     })();
   }, []);
 
+  const alertSpeciesCount = useAlertStore((state) => state.species.length);
+  const isWatchingSpecies = alertSpeciesCount > 0;
+  const checkAlertsNow = useAlertStore((state) => state.checkNow);
+  const setAlertNotificationStatus = useAlertStore((state) => state.setNotificationStatus);
+
+  // Background checks run while species are watched; asks for notification permission
+  useEffect(() => {
+    syncAlertNotifications(isWatchingSpecies)
+      .then(setAlertNotificationStatus)
+      .catch((error) => console.error("Error setting up alert notifications:", error));
+  }, [isWatchingSpecies, setAlertNotificationStatus]);
+
+  // Open the observation behind a tapped alert notification
+  // Matches are kept in the alert store, so no request is needed
+  useEffect(() => {
+    const openObservation = (response: Notifications.NotificationResponse | null) => {
+      const observationId = response && getNotificationObservationId(response);
+      const match = useAlertStore
+        .getState()
+        .recentMatches.find((recent) => recent.observation.id === observationId);
+      if (match) {
+        setSelectedObservation(match.observation);
+      }
+    };
+
+    Notifications.getLastNotificationResponseAsync().then(openObservation);
+    const subscription = Notifications.addNotificationResponseReceivedListener(openObservation);
+    return () => subscription.remove();
+  }, [setSelectedObservation]);
+
+  const runAlertCheck = useCallback(async () => {
+    const { species, location, lastCheckedAt } = useAlertStore.getState();
+    if (species.length === 0 || (!location && !userLocation) || !isAlertCheckDue(lastCheckedAt)) {
+      return;
+    }
+    const matches = await checkAlertsNow(userLocation);
+    if (matches.length > 0) {
+      await notifyAlertMatches(matches);
+    }
+  }, [userLocation, checkAlertsNow]);
+
+  // Check alerts once the watchlist and location are known
+  useEffect(() => {
+    if (alertSpeciesCount > 0) {
+      runAlertCheck();
+    }
+  }, [alertSpeciesCount, runAlertCheck]);
+
+  // And again when the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        runAlertCheck();
+      }
+    });
+    return () => subscription.remove();
+  }, [runAlertCheck]);
+
   // Initial fetch on mount
   useEffect(() => {
     if (!viewport) {
@@ -254,8 +481,20 @@ export const MapScreen: React.FC = () => {
 
   const handleDeepLink = useCallback(async (url: string) => {
     try {
-      // Parse URL: animals-near-me://observation/{id}
+      // Parse URL: animals-near-me://observation/{id} or animals-near-me://map?lat=...
       const parsed = Linking.parse(url);
+
+      // Shared map view: apply its filters, then fly there
+      // onRegionChangeComplete loads its observations
+      if (isMapViewPath(parsed.path)) {
+        const mapView = parseMapViewParams(parsed.queryParams);
+        if (mapView) {
+          setSelectedObservation(null);
+          setFilters(mapView.filters);
+          mapRef.current?.animateToRegion(viewportParamsToRegion(mapView.viewport), 500);
+        }
+        return;
+      }
       
       // Handle path like "observation/{id}" or "observation" with id in query params
       let observationId: string | null = null;
@@ -290,7 +529,7 @@ export const MapScreen: React.FC = () => {
     } catch (error) {
       console.error("Error handling deep link:", error);
     }
-  }, [setSelectedObservation]);
+  }, [setSelectedObservation, setFilters]);
 
   // Handle deep links
   useEffect(() => {
@@ -357,6 +596,52 @@ export const MapScreen: React.FC = () => {
     }
   }, [viewport, fetchObservationsForViewport, clearError]);
 
+  const handleSeasonalRetry = useCallback(() => {
+    clearSeasonalError();
+    if (viewport) {
+      fetchSeasonalForViewport(viewport);
+    }
+  }, [viewport, fetchSeasonalForViewport, clearSeasonalError]);
+
+  // Switch between recent sightings and what's usually here this time of year
+  // Only the active mode fetches on pan, so load the other mode's data on switch
+  const handleToggleSeasonal = useCallback(() => {
+    const region = viewport || DEFAULT_REGION;
+    setSeasonalMode(!seasonalMode);
+    setHighlightedSpecies(null);
+    if (seasonalMode) {
+      fetchObservationsForViewport(region);
+    } else {
+      fetchSeasonalForViewport(region);
+    }
+  }, [
+    viewport,
+    seasonalMode,
+    setSeasonalMode,
+    setHighlightedSpecies,
+    fetchObservationsForViewport,
+    fetchSeasonalForViewport,
+  ]);
+
+  // Show recent sightings of a species picked from the seasonal list
+  const handleSelectLikelySpecies = useCallback(
+    (species: SeasonalSpecies) => {
+      const nextFilters = {
+        ...filters,
+        taxonIds: species.inatTaxonId !== undefined ? [species.inatTaxonId] : [],
+        speciesCodes: species.ebirdSpeciesCode ? [species.ebirdSpeciesCode] : [],
+      };
+      setSeasonalMode(false);
+      setShowSpeciesList(false);
+      if (JSON.stringify(nextFilters) !== JSON.stringify(filters)) {
+        setFilters(nextFilters); // Refetches for the current viewport
+      } else {
+        fetchObservationsForViewport(viewport || DEFAULT_REGION);
+      }
+    },
+    [filters, viewport, setSeasonalMode, setFilters, fetchObservationsForViewport]
+  );
+
   // Center map on user location
   const handleCenterOnLocation = useCallback(async () => {
     if (!mapRef.current) return;
@@ -401,6 +686,33 @@ export const MapScreen: React.FC = () => {
     }
   }, []);
 
+  // Highlight a species from the list and show its markers on the map
+  const handleSelectSpecies = useCallback(
+    (speciesKey: string) => {
+      setHighlightedSpecies(speciesKey);
+      setShowSpeciesList(false);
+    },
+    [setHighlightedSpecies]
+  );
+
+  // Share the current viewport and filters as a deep link
+  const handleShareMapView = useCallback(async () => {
+    const url = getMapViewUrl(regionToViewportParams(viewport || DEFAULT_REGION), filters);
+    try {
+      await Share.share({
+        message: url,
+        url,
+      });
+    } catch (error) {
+      console.error("Error sharing map view:", error);
+    }
+  }, [viewport, filters]);
+
+  // Fly to a saved offline area; onRegionChangeComplete loads its observations
+  const handleSelectSavedArea = useCallback((region: Region) => {
+    mapRef.current?.animateToRegion(region, 500);
+  }, []);
+
   // Handle cluster press - zoom into cluster to show all contained markers
   const handleClusterPress = useCallback(
     (cluster: any, markers?: any[]) => {
@@ -477,6 +789,25 @@ export const MapScreen: React.FC = () => {
     [viewport]
   );
 
+  // Zoom to a server cluster; the new viewport loads its observations or finer clusters
+  const handleServerClusterPress = useCallback(
+    (cluster: ObservationCluster) => {
+      if (!mapRef.current || !viewport) return;
+
+      const { north, south, east, west } = cluster.bounds;
+      mapRef.current.animateToRegion(
+        {
+          latitude: (north + south) / 2,
+          longitude: (east + west) / 2,
+          latitudeDelta: Math.max((north - south) * 1.3, viewport.latitudeDelta / 4),
+          longitudeDelta: Math.max((east - west) * 1.3, viewport.longitudeDelta / 4),
+        },
+        300
+      );
+    },
+    [viewport]
+  );
+
   // Render function for clusters
   const renderCluster = useCallback((cluster: any) => {
     // Don't render clusters when zoomed in - show individual markers instead
@@ -504,12 +835,31 @@ export const MapScreen: React.FC = () => {
     if (!pointCount || pointCount === 0) {
       return null;
     }
+
+    // Leaves carry the props of the markers they were built from
+    const leaves: any[] = superClusterRef.current?.getLeaves(cluster.id, Infinity) || [];
+    const leafObservations = leaves
+      .map((leaf) => leaf.properties?.observation)
+      .filter(Boolean);
+    const taxa = countTaxa(leafObservations);
+    // A flock reported as one eBird record counts every bird
+    const individuals = countIndividuals(leafObservations);
+
     return (
       <ClusterMarker
         key={`cluster-${cluster.id}`}
         coordinate={coordinate}
         count={pointCount}
-        onPress={cluster.onPress || (() => {})}
+        individuals={individuals}
+        taxa={taxa}
+        onPress={() =>
+          setClusterBreakdown({
+            count: pointCount,
+            individuals,
+            taxa,
+            zoomIn: cluster.onPress || (() => {}),
+          })
+        }
       />
     );
   }, [viewport]);
@@ -534,30 +884,140 @@ export const MapScreen: React.FC = () => {
         minPoints={2}
         onClusterPress={handleClusterPress}
         renderCluster={renderCluster}
+        superClusterRef={superClusterRef}
         preserveClusterPressBehavior={true}
         spiralEnabled={false}
         mapType="terrain"
         customMapStyle={CUSTOM_MAP_STYLE}
       >
-        {displayedObservations.map((item) => (
-          <ObservationMarker
-            key={item.observation.id}
-            observation={item.observation}
-            onPress={setSelectedObservation}
-            coordinate={{
-              latitude: item.observation.lat,
-              longitude: item.observation.lng,
-            }}
-            offset={item.offset}
-            selected={selectedObservation?.id === item.observation.id}
+        {seasonalMode && seasonalData && <DensityLayer grid={seasonalData.density} />}
+        {heatmapGrid && (
+          <DensityLayer
+            grid={heatmapGrid}
+            color={heatmapTaxa ? getTaxaColor(heatmapTaxa) : ALL_TAXA_DENSITY_COLOR}
+          />
+        )}
+        {showServerClusters && clusters.map((cluster) => (
+          <ClusterMarker
+            key={cluster.id}
+            coordinate={{ latitude: cluster.lat, longitude: cluster.lng }}
+            count={cluster.count}
+            individuals={cluster.individuals}
+            taxa={cluster.taxa}
+            onPress={() =>
+              setClusterBreakdown({
+                count: cluster.count,
+                individuals: cluster.individuals,
+                taxa: cluster.taxa,
+                zoomIn: () => handleServerClusterPress(cluster),
+              })
+            }
+            cluster={false}
           />
         ))}
+        {!seasonalMode && !heatmapEnabled && !showServerClusters && displayedObservations.map((item) => {
+          const isNew = hasLifeList && !hasSeenSpecies(seenSpecies, item.observation);
+          return (
+            <ObservationMarker
+              // Markers don't track view changes, so remount when the badge changes
+              key={`${item.observation.id}${isNew ? "-new" : ""}`}
+              observation={item.observation}
+              onPress={setSelectedObservation}
+              coordinate={{
+                latitude: item.observation.lat,
+                longitude: item.observation.lng,
+              }}
+              offset={item.offset}
+              selected={selectedObservation?.id === item.observation.id}
+              isNew={isNew}
+            />
+          );
+        })}
       </ClusteredMapView>
 
-      {isLoading && <LoadingState />}
-      {error && <ErrorState error={error} onRetry={handleRetry} />}
+      {seasonalMode ? (
+        <>
+          {isLoadingSeasonal && <LoadingState message="Loading past years..." />}
+          {seasonalError && <ErrorState error={seasonalError} onRetry={handleSeasonalRetry} />}
+        </>
+      ) : (
+        <>
+          {isLoading && <LoadingState />}
+          {!isLoading && isLoadingMore && <LoadingState message="Loading more..." />}
+          {error && <ErrorState error={error} onRetry={handleRetry} />}
+        </>
+      )}
+      {!seasonalMode && !error && offlineSince && (
+        <ErrorState
+          error={`Offline — showing data from ${formatSavedAt(offlineSince)}`}
+          onRetry={handleRetry}
+          variant="warning"
+        />
+      )}
+      {!(seasonalMode ? seasonalError : error) && !offlineSince && providerWarning && (
+        <ErrorState error={providerWarning} variant="warning" />
+      )}
       <ColorLegend visible={showLegend} />
 
+      {showSpeciesList && seasonalMode && (
+        <LikelySpeciesList data={seasonalData} onSelectSpecies={handleSelectLikelySpecies} />
+      )}
+      {showSpeciesList && !seasonalMode && (
+        <SpeciesList
+          observations={visibleObservations}
+          userLocation={userLocation}
+          highlightedSpecies={highlightedSpecies}
+          onSelectSpecies={handleSelectSpecies}
+        />
+      )}
+
+      {/* List / Map Toggle */}
+      <TouchableOpacity
+        style={[
+          styles.viewToggleButton,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={() => setShowSpeciesList(!showSpeciesList)}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name={showSpeciesList ? "map-outline" : "list"}
+          size={18}
+          color={theme.text.primary}
+        />
+        <Text style={[styles.filterButtonText, { color: theme.text.primary }]}>
+          {showSpeciesList ? "Map" : "List"}
+        </Text>
+      </TouchableOpacity>
+
+      {/* Highlighted Species Chip */}
+      {!showSpeciesList && !seasonalMode && highlightedName && (
+        <TouchableOpacity
+          style={[
+            styles.highlightChip,
+            {
+              backgroundColor: theme.background.card,
+              shadowColor: theme.shadow.color,
+              shadowOpacity: theme.shadow.opacity,
+            },
+          ]}
+          onPress={() => setHighlightedSpecies(null)}
+          activeOpacity={0.8}
+        >
+          <Text
+            style={[styles.highlightChipText, { color: theme.text.primary }]}
+            numberOfLines={1}
+          >
+            {highlightedName}
+          </Text>
+          <Ionicons name="close" size={16} color={theme.text.secondary} />
+        </TouchableOpacity>
+      )}
+
       {/* Filter Button */}
       <TouchableOpacity
         style={[
@@ -605,6 +1065,148 @@ export const MapScreen: React.FC = () => {
         />
       </TouchableOpacity>
 
+      {/* Offline Areas Button */}
+      <TouchableOpacity
+        style={[
+          styles.savedAreasButton,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={() => setShowSavedAreas(!showSavedAreas)}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name="download-outline"
+          size={20}
+          color={theme.text.primary}
+        />
+      </TouchableOpacity>
+
+      {/* Share Map View Button */}
+      <TouchableOpacity
+        style={[
+          styles.shareViewButton,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={handleShareMapView}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name="share-outline"
+          size={20}
+          color={theme.text.primary}
+        />
+      </TouchableOpacity>
+
+      {/* Life List Button */}
+      <TouchableOpacity
+        style={[
+          styles.lifeListButton,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={() => router.push("/life-list")}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name="ribbon-outline"
+          size={20}
+          color={theme.text.primary}
+        />
+      </TouchableOpacity>
+
+      {/* Species Alerts Button */}
+      <TouchableOpacity
+        style={[
+          styles.alertsButton,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={() => setShowAlerts(!showAlerts)}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name={alertSpeciesCount > 0 ? "notifications" : "notifications-outline"}
+          size={20}
+          color={theme.text.primary}
+        />
+      </TouchableOpacity>
+
+      {/* Seasonal Mode Toggle */}
+      <TouchableOpacity
+        style={[
+          styles.seasonalButton,
+          {
+            backgroundColor: seasonalMode ? "#3B82F6" : theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+        ]}
+        onPress={handleToggleSeasonal}
+        activeOpacity={0.8}
+      >
+        <Ionicons
+          name="calendar-outline"
+          size={20}
+          color={seasonalMode ? "#FFFFFF" : theme.text.primary}
+        />
+      </TouchableOpacity>
+
+      {/* Heatmap Toggle */}
+      {!seasonalMode && (
+        <TouchableOpacity
+          style={[
+            styles.heatmapButton,
+            {
+              backgroundColor: heatmapEnabled ? "#3B82F6" : theme.background.card,
+              shadowColor: theme.shadow.color,
+              shadowOpacity: theme.shadow.opacity,
+            },
+          ]}
+          onPress={() => setHeatmapEnabled(!heatmapEnabled)}
+          activeOpacity={0.8}
+        >
+          <Ionicons
+            name="flame-outline"
+            size={20}
+            color={heatmapEnabled ? "#FFFFFF" : theme.text.primary}
+          />
+        </TouchableOpacity>
+      )}
+
+      {heatmapEnabled && !seasonalMode && !showSpeciesList && (
+        <DensityTaxaPicker selected={heatmapTaxa} onSelect={setHeatmapTaxa} />
+      )}
+
+      {clusterBreakdown && !showSpeciesList && (
+        <ClusterBreakdown
+          count={clusterBreakdown.count}
+          individuals={clusterBreakdown.individuals}
+          taxa={clusterBreakdown.taxa}
+          onZoomIn={() => {
+            clusterBreakdown.zoomIn();
+            setClusterBreakdown(null);
+          }}
+          onClose={() => setClusterBreakdown(null)}
+        />
+      )}
+
+      {/* Species Search (rendered last so its results overlay the buttons) */}
+      <SpeciesSearchBar filters={filters} onFiltersChange={setFilters} />
+
       <ObservationSheet
         observation={selectedObservation}
         onClose={() => setSelectedObservation(null)}
@@ -616,6 +1218,22 @@ export const MapScreen: React.FC = () => {
         onFiltersChange={setFilters}
         onClose={() => setShowFilterSheet(false)}
       />
+
+      <SavedAreasSheet
+        visible={showSavedAreas}
+        region={viewport}
+        recency={filters.recency}
+        onSelectArea={handleSelectSavedArea}
+        onClose={() => setShowSavedAreas(false)}
+      />
+
+      <AlertsSheet
+        visible={showAlerts}
+        region={viewport}
+        userLocation={userLocation}
+        onSelectObservation={setSelectedObservation}
+        onClose={() => setShowAlerts(false)}
+      />
     </View>
   );
 };
@@ -629,7 +1247,7 @@ const styles = StyleSheet.create({
   },
   filterButton: {
     position: "absolute",
-    top: 70,
+    top: 122,
     right: 68,
     paddingHorizontal: 16,
     height: 44,
@@ -662,7 +1280,7 @@ const styles = StyleSheet.create({
   },
   locationButton: {
     position: "absolute",
-    top: 70,
+    top: 122,
     right: 16,
     width: 44,
     height: 44,
@@ -673,5 +1291,118 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  viewToggleButton: {
+    position: "absolute",
+    top: 122,
+    left: 16,
+    paddingHorizontal: 16,
+    height: 44,
+    borderRadius: 22,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  highlightChip: {
+    position: "absolute",
+    top: 174,
+    left: 16,
+    maxWidth: "60%",
+    paddingHorizontal: 14,
+    height: 36,
+    borderRadius: 18,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  highlightChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  savedAreasButton: {
+    position: "absolute",
+    top: 174,
+    right: 16,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  shareViewButton: {
+    position: "absolute",
+    top: 226,
+    right: 16,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lifeListButton: {
+    position: "absolute",
+    top: 226,
+    right: 68,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  alertsButton: {
+    position: "absolute",
+    top: 226,
+    right: 120,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  seasonalButton: {
+    position: "absolute",
+    top: 174,
+    right: 68,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  heatmapButton: {
+    position: "absolute",
+    top: 174,
+    right: 120,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
 });
 
@@ -1,8 +1,9 @@
 import React, { useEffect, useRef } from "react";
-import { View, StyleSheet, Animated } from "react-native";
+import { View, Text, StyleSheet, Animated } from "react-native";
 import { Marker } from "react-native-maps";
 import type { Observation } from "../types/observation";
 import { getTaxaColor } from "../utils/colors";
+import { formatCount } from "../utils/clusters";
 
 interface ObservationMarkerProps {
   observation: Observation;
@@ -16,6 +17,7 @@ interface ObservationMarkerProps {
     lng: number;
   };
   selected?: boolean;
+  isNew?: boolean; // Species isn't on the user's life list yet
 }
 
 export const ObservationMarker: React.FC<ObservationMarkerProps> = ({
@@ -23,6 +25,7 @@ export const ObservationMarker: React.FC<ObservationMarkerProps> = ({
   onPress,
   offset,
   selected = false,
+  isNew = false,
 }) => {
   const color = getTaxaColor(observation.taxaBucket);
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -101,6 +104,14 @@ export const ObservationMarker: React.FC<ObservationMarkerProps> = ({
           />
         )}
         <View style={[styles.marker, { backgroundColor: color }]} />
+        {isNew && <View style={styles.newBadge} />}
+        {observation.count !== undefined && observation.count > 1 && (
+          <View style={[styles.countBadge, { borderColor: color }]}>
+            <Text style={styles.countText} numberOfLines={1}>
+              ×{formatCount(observation.count)}
+            </Text>
+          </View>
+        )}
       </View>
     </Marker>
   );
@@ -125,6 +136,31 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 3,
   },
+  countBadge: {
+    position: "absolute",
+    top: 2,
+    left: 26,
+    paddingHorizontal: 3,
+    borderRadius: 6,
+    borderWidth: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  countText: {
+    fontSize: 9,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  newBadge: {
+    position: "absolute",
+    top: 9,
+    left: 9,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+    borderColor: "#FFFFFF",
+    backgroundColor: "#EAB308",
+  },
   pulseRing: {
     position: "absolute",
     width: 32,
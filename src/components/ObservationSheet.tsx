@@ -13,15 +13,27 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import BottomSheet, { BottomSheetScrollView } from "@gorhom/bottom-sheet";
 import ImageViewing from "react-native-image-viewing";
-import type { Observation } from "../types/observation";
+import type { Observation, QualityGrade } from "../types/observation";
 import type { WikipediaSummary } from "../types/wikipedia";
 import { getTaxaColor } from "../utils/colors";
+import { getProviderLabel } from "../types/provider";
 import { fetchWikipediaSummary } from "../api/client";
-
-const API_URL = process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000/api";
-import { normalizeWikipediaTitle } from "../utils/wikipedia";
+import { cachePhoto } from "../utils/offlineCache";
+import { getObservationPhotos, getPhotoCredit, getPhotoUrl } from "../utils/photos";
+import { getShareUrl } from "../utils/share";
+import { getSpeciesKey } from "../utils/species";
+import { formatSeenDate } from "../utils/lifeList";
+import { useLifeListStore } from "../store/lifeListStore";
+import { canWatchSpecies, useAlertStore } from "../store/alertStore";
+import { getWikipediaTitles } from "../utils/wikipedia";
 import { useTheme } from "../utils/theme";
 
+const QUALITY_GRADE_LABELS: Record<QualityGrade, string> = {
+  research: "Research grade",
+  needs_id: "Needs ID",
+  casual: "Casual",
+};
+
 interface ObservationSheetProps {
   observation: Observation | null;
   onClose: () => void;
@@ -39,6 +51,8 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
   const [wikipediaData, setWikipediaData] = useState<WikipediaSummary | null>(null);
   const [wikipediaLoading, setWikipediaLoading] = useState(false);
   const [imageViewerVisible, setImageViewerVisible] = useState(false);
+  const [imageViewerIndex, setImageViewerIndex] = useState(0);
+  const [photoUri, setPhotoUri] = useState<string | undefined>(undefined);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [displayedObservationId, setDisplayedObservationId] = useState<string | null>(null);
 
@@ -97,6 +111,49 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
     }
   }, [observation, displayedObservationId]);
 
+  // Save the selected photo on device and prefer the local copy
+  // so it still shows when offline
+  useEffect(() => {
+    const url = observation?.photoUrl;
+    setPhotoUri(url);
+    if (!url) {
+      return;
+    }
+
+    let cancelled = false;
+    cachePhoto(url).then((localUri) => {
+      if (localUri && !cancelled) {
+        setPhotoUri(localUri);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [observation?.photoUrl]);
+
+  const photos = useMemo(
+    () => (observation ? getObservationPhotos(observation) : []),
+    [observation]
+  );
+
+  // Full-size images for the viewer; the first uses the copy saved on device
+  const viewerImages = useMemo(
+    () =>
+      photos.map((photo, index) => ({
+        uri:
+          index === 0 && photoUri
+            ? photoUri
+            : getPhotoUrl(photo, ["large", "original", "medium"]) ?? "",
+      })),
+    [photos, photoUri]
+  );
+
+  const openImageViewer = (index: number) => {
+    setImageViewerIndex(index);
+    setImageViewerVisible(true);
+  };
+
   // Fetch Wikipedia data when observation changes
   useEffect(() => {
     if (!observation) {
@@ -110,20 +167,7 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
       setWikipediaData(null);
 
       // Try common name first, then scientific name
-      const titlesToTry = [];
-      
-      if (observation.commonName) {
-        const normalizedCommon = normalizeWikipediaTitle(observation.commonName);
-        titlesToTry.push(normalizedCommon);
-      }
-      
-      if (observation.scientificName) {
-        const normalizedScientific = normalizeWikipediaTitle(observation.scientificName);
-        // Only add if different from common name
-        if (!titlesToTry.includes(normalizedScientific)) {
-          titlesToTry.push(normalizedScientific);
-        }
-      }
+      const titlesToTry = getWikipediaTitles(observation);
 
       if (titlesToTry.length === 0) {
         setWikipediaLoading(false);
@@ -153,13 +197,29 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
     fetchWikipedia();
   }, [observation]);
 
+  const isFavorite = useLifeListStore((state) =>
+    observation ? !!state.favorites[observation.id] : false
+  );
+  const seenEntry = useLifeListStore((state) =>
+    observation ? state.seenSpecies[getSpeciesKey(observation)] : undefined
+  );
+  const toggleFavorite = useLifeListStore((state) => state.toggleFavorite);
+  const markSeen = useLifeListStore((state) => state.markSeen);
+  const unmarkSeen = useLifeListStore((state) => state.unmarkSeen);
+  const isWatched = useAlertStore((state) =>
+    observation
+      ? state.species.some((watched) => watched.key === getSpeciesKey(observation))
+      : false
+  );
+  const watchSpecies = useAlertStore((state) => state.watchSpecies);
+  const unwatchSpecies = useAlertStore((state) => state.unwatchSpecies);
 
   if (!observation) {
     return null;
   }
 
   const color = getTaxaColor(observation.taxaBucket);
-  const providerName = observation.provider === "ebird" ? "eBird" : "iNaturalist";
+  const providerName = getProviderLabel(observation.provider);
 
   const handleOpenDetail = () => {
     if (observation.detailUrl) {
@@ -167,9 +227,11 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
     }
   };
 
+  const shareUrl = getShareUrl(observation);
+
   const handleShare = async () => {
+    if (!shareUrl) return;
     try {
-      const shareUrl = `${API_URL}/share/${observation.id}`;
       await Share.share({
         message: shareUrl,
         url: shareUrl,
@@ -270,19 +332,53 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
         {!isTransitioning && (
           <>
             {/* Hero Image */}
-            {observation.photoUrl && (
+            {photoUri && (
           <TouchableOpacity
             style={dynamicStyles.imageContainer}
-            onPress={() => setImageViewerVisible(true)}
+            onPress={() => openImageViewer(0)}
             activeOpacity={0.9}
           >
             <Image
-              source={{ uri: observation.photoUrl }}
+              source={{ uri: photoUri }}
               style={styles.heroImage}
               resizeMode="cover"
             />
+            {photos.length > 1 && (
+              <View style={styles.photoCount}>
+                <Ionicons name="images-outline" size={14} color="#FFFFFF" />
+                <Text style={styles.photoCountText}>{photos.length}</Text>
+              </View>
+            )}
           </TouchableOpacity>
         )}
+        {photoUri && photos.length > 0 && (
+          <Text style={[styles.photoCredit, { color: theme.text.secondary }]} numberOfLines={2}>
+            {getPhotoCredit(photos[0])}
+          </Text>
+        )}
+
+        {/* Remaining photos */}
+        {photos.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.thumbnailStrip}
+            contentContainerStyle={styles.thumbnailContent}
+          >
+            {photos.slice(1).map((photo, index) => (
+              <TouchableOpacity
+                key={getPhotoUrl(photo) ?? index}
+                onPress={() => openImageViewer(index + 1)}
+                activeOpacity={0.8}
+              >
+                <Image
+                  source={{ uri: getPhotoUrl(photo, ["small", "square", "medium", "original"]) }}
+                  style={[styles.thumbnail, { backgroundColor: theme.background.secondary }]}
+                />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
 
         {/* Names and Share Button */}
         <View style={styles.header}>
@@ -296,13 +392,45 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
               </Text>
             )}
           </View>
-          <TouchableOpacity
-            style={styles.shareButton}
-            onPress={handleShare}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-          >
-            <Ionicons name="share-outline" size={24} color={theme.text.primary} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {canWatchSpecies(observation) && (
+              <TouchableOpacity
+                style={styles.shareButton}
+                onPress={() =>
+                  isWatched
+                    ? unwatchSpecies(getSpeciesKey(observation))
+                    : watchSpecies(observation)
+                }
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons
+                  name={isWatched ? "notifications" : "notifications-outline"}
+                  size={24}
+                  color={isWatched ? "#3B82F6" : theme.text.primary}
+                />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.shareButton}
+              onPress={() => toggleFavorite(observation)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons
+                name={isFavorite ? "star" : "star-outline"}
+                size={24}
+                color={isFavorite ? "#EAB308" : theme.text.primary}
+              />
+            </TouchableOpacity>
+            {shareUrl && (
+              <TouchableOpacity
+                style={styles.shareButton}
+                onPress={handleShare}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="share-outline" size={24} color={theme.text.primary} />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         {/* Taxa Bucket and Provider Badge */}
@@ -319,12 +447,45 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
           </View>
         </View>
 
+        {/* Life List */}
+        <TouchableOpacity
+          style={[
+            styles.seenButton,
+            { borderColor: seenEntry ? "#10B981" : theme.border },
+          ]}
+          onPress={() =>
+            seenEntry ? unmarkSeen(seenEntry.key) : markSeen(observation)
+          }
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={seenEntry ? "checkmark-circle" : "add-circle-outline"}
+            size={20}
+            color={seenEntry ? "#10B981" : theme.text.secondary}
+          />
+          <Text style={[styles.seenText, { color: theme.text.primary }]}>
+            {seenEntry
+              ? `Seen by me · first ${formatSeenDate(seenEntry.firstSeenAt)}`
+              : "Mark species as seen by me"}
+          </Text>
+        </TouchableOpacity>
+
         {/* Observed Date/Time */}
         <View style={styles.section}>
           <Text style={dynamicStyles.label}>Observed</Text>
           <Text style={dynamicStyles.value}>{formatDate(observation.observedAt)}</Text>
         </View>
 
+        {/* Count */}
+        {observation.count !== undefined && (
+          <View style={styles.section}>
+            <Text style={dynamicStyles.label}>Count</Text>
+            <Text style={dynamicStyles.value}>
+              {observation.count} {observation.count === 1 ? "individual" : "individuals"}
+            </Text>
+          </View>
+        )}
+
         {/* Location */}
         <View style={styles.section}>
           <Text style={dynamicStyles.label}>Location</Text>
@@ -334,6 +495,58 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
           </Text>
         </View>
 
+        {/* Observer */}
+        {observation.observer && (
+          <View style={styles.section}>
+            <Text style={dynamicStyles.label}>Observer</Text>
+            <Text style={dynamicStyles.value}>
+              {observation.observer.name || observation.observer.login}
+              {observation.observer.name && observation.observer.login && (
+                <Text style={{ color: theme.text.secondary }}>
+                  {" "}@{observation.observer.login}
+                </Text>
+              )}
+            </Text>
+          </View>
+        )}
+
+        {/* Identification Quality */}
+        {observation.qualityGrade && (
+          <View style={styles.section}>
+            <Text style={dynamicStyles.label}>Identification</Text>
+            <View style={styles.qualityRow}>
+              <Ionicons
+                name={
+                  observation.qualityGrade === "research"
+                    ? "checkmark-circle"
+                    : "help-circle-outline"
+                }
+                size={18}
+                color={observation.qualityGrade === "research" ? "#16A34A" : theme.text.secondary}
+              />
+              <Text style={dynamicStyles.value}>
+                {QUALITY_GRADE_LABELS[observation.qualityGrade]}
+                {observation.identificationsCount !== undefined &&
+                  ` · ${observation.identificationsCount} ${
+                    observation.identificationsCount === 1 ? "identification" : "identifications"
+                  }`}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* eBird Checklist */}
+        {observation.checklistId && (
+          <TouchableOpacity
+            style={dynamicStyles.linkButton}
+            onPress={() =>
+              Linking.openURL(`https://ebird.org/checklist/${observation.checklistId}`)
+            }
+          >
+            <Text style={styles.linkText}>View checklist →</Text>
+          </TouchableOpacity>
+        )}
+
         {/* External Link */}
         {observation.detailUrl && (
           <TouchableOpacity
@@ -378,12 +591,24 @@ export const ObservationSheet: React.FC<ObservationSheetProps> = ({
       </BottomSheetScrollView>
     </BottomSheet>
 
-    {observation.photoUrl && (
+    {viewerImages.length > 0 && (
       <ImageViewing
-        images={[{ uri: observation.photoUrl }]}
-        imageIndex={0}
+        images={viewerImages}
+        imageIndex={imageViewerIndex}
         visible={imageViewerVisible}
         onRequestClose={() => setImageViewerVisible(false)}
+        FooterComponent={({ imageIndex }) => (
+          <View style={styles.viewerFooter}>
+            {photos[imageIndex] && (
+              <Text style={styles.viewerCredit}>{getPhotoCredit(photos[imageIndex])}</Text>
+            )}
+            {photos.length > 1 && (
+              <Text style={styles.viewerIndex}>
+                {imageIndex + 1} / {photos.length}
+              </Text>
+            )}
+          </View>
+        )}
       />
     )}
     </>
@@ -407,6 +632,54 @@ const styles = StyleSheet.create({
     width: "100%",
     height: "100%",
   },
+  photoCount: {
+    position: "absolute",
+    right: 8,
+    bottom: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  photoCountText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  photoCredit: {
+    fontSize: 12,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  thumbnailStrip: {
+    marginBottom: 16,
+  },
+  thumbnailContent: {
+    gap: 8,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  viewerFooter: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+    alignItems: "center",
+    gap: 4,
+  },
+  viewerCredit: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    textAlign: "center",
+  },
+  viewerIndex: {
+    color: "rgba(255, 255, 255, 0.7)",
+    fontSize: 12,
+  },
   header: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -417,9 +690,33 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
   shareButton: {
     padding: 4,
   },
+  seenButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  seenText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  qualityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   categoryRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,289 @@
+import React, { useMemo, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import BottomSheet, { BottomSheetScrollView } from "@gorhom/bottom-sheet";
+import { Ionicons } from "@expo/vector-icons";
+import type { Region } from "react-native-maps";
+import type { FilterParams } from "../types/filters";
+import type { SavedArea } from "../utils/offlineCache";
+import { useSavedAreaStore } from "../store/savedAreaStore";
+import { useTheme } from "../utils/theme";
+
+interface SavedAreasSheetProps {
+  visible: boolean;
+  region: Region | null; // Current map region, saved by "Save this area"
+  recency: FilterParams["recency"];
+  onSelectArea: (region: Region) => void;
+  onClose: () => void;
+}
+
+const RECENCY_LABELS: Record<string, string> = {
+  today: "Today",
+  this_week: "This Week",
+  this_month: "This Month",
+};
+
+/**
+ * Format a byte count as KB / MB
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatSavedDate(savedAt: string): string {
+  try {
+    return new Date(savedAt).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  } catch {
+    return savedAt;
+  }
+}
+
+function areaToRegion(area: SavedArea): Region {
+  return {
+    latitude: area.viewport.lat,
+    longitude: area.viewport.lng,
+    latitudeDelta: area.viewport.latDelta,
+    longitudeDelta: area.viewport.lngDelta,
+  };
+}
+
+export const SavedAreasSheet: React.FC<SavedAreasSheetProps> = ({
+  visible,
+  region,
+  recency,
+  onSelectArea,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const snapPoints = useMemo(() => ["60%"], []);
+  const sheetRef = React.useRef<BottomSheet>(null);
+  const {
+    areas,
+    download,
+    error,
+    loadAreas,
+    saveArea,
+    refreshArea,
+    deleteArea,
+    clearError,
+  } = useSavedAreaStore();
+
+  // Reload saved areas whenever the sheet opens
+  useEffect(() => {
+    if (visible) {
+      loadAreas();
+    }
+  }, [visible, loadAreas]);
+
+  // Control sheet visibility
+  useEffect(() => {
+    if (visible) {
+      sheetRef.current?.snapToIndex(0);
+    } else {
+      sheetRef.current?.close();
+    }
+  }, [visible]);
+
+  const handleSave = () => {
+    if (!region || download) return;
+    clearError();
+    saveArea(region, recency);
+  };
+
+  const handleDelete = (area: SavedArea) => {
+    Alert.alert("Delete saved area?", `${area.name} will no longer be available offline.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => deleteArea(area.id) },
+    ]);
+  };
+
+  const handleSelect = (area: SavedArea) => {
+    onSelectArea(areaToRegion(area));
+    onClose();
+  };
+
+  const downloadLabel = download
+    ? download.phase === "observations"
+      ? `Downloading observations (${download.completed})...`
+      : `Downloading species info (${download.completed}/${download.total})...`
+    : null;
+
+  return (
+    <BottomSheet
+      ref={sheetRef}
+      index={-1}
+      snapPoints={snapPoints}
+      enablePanDownToClose
+      onClose={onClose}
+      enableDynamicSizing={false}
+      handleIndicatorStyle={{ backgroundColor: theme.border, width: 80 }}
+      backgroundStyle={{ backgroundColor: theme.background.card }}
+      enableOverDrag={false}
+    >
+      <BottomSheetScrollView contentContainerStyle={styles.scrollContentContainer}>
+        <Text style={[styles.title, { color: theme.text.primary }]}>Offline Areas</Text>
+
+        <TouchableOpacity
+          style={[styles.saveButton, (!region || !!download) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!region || !!download}
+        >
+          {download ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Ionicons name="download-outline" size={18} color="#FFFFFF" />
+          )}
+          <Text style={styles.saveButtonText}>Save this area</Text>
+        </TouchableOpacity>
+        <Text style={[styles.hint, { color: theme.text.muted }]}>
+          Saves every observation in view for{" "}
+          {(recency && RECENCY_LABELS[recency]) || "all dates"}, plus species info
+        </Text>
+
+        {downloadLabel && (
+          <Text style={[styles.status, { color: theme.text.secondary }]}>{downloadLabel}</Text>
+        )}
+        {error && <Text style={[styles.status, styles.errorText]}>{error}</Text>}
+
+        {areas.length === 0 ? (
+          <Text style={[styles.emptyText, { color: theme.text.muted }]}>
+            No saved areas yet
+          </Text>
+        ) : (
+          areas.map((area) => {
+            const isDownloading = download?.areaId === area.id;
+            return (
+              <TouchableOpacity
+                key={area.id}
+                style={[styles.areaRow, { borderBottomColor: theme.border }]}
+                onPress={() => handleSelect(area)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.areaInfo}>
+                  <Text
+                    style={[styles.areaName, { color: theme.text.primary }]}
+                    numberOfLines={1}
+                  >
+                    {area.name}
+                  </Text>
+                  <Text style={[styles.areaMeta, { color: theme.text.secondary }]}>
+                    {area.observationCount} observations · {area.speciesCount} species ·{" "}
+                    {formatSize(area.sizeBytes)}
+                  </Text>
+                  <Text style={[styles.areaMeta, { color: theme.text.muted }]}>
+                    Saved {formatSavedDate(area.savedAt)}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => refreshArea(area.id)}
+                  disabled={!!download}
+                >
+                  {isDownloading ? (
+                    <ActivityIndicator color={theme.text.secondary} />
+                  ) : (
+                    <Ionicons
+                      name="refresh"
+                      size={20}
+                      color={download ? theme.text.muted : theme.text.secondary}
+                    />
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleDelete(area)}
+                  disabled={isDownloading}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </BottomSheetScrollView>
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 40, // Extra padding for home bar
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 16,
+    marginTop: 8,
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#3B82F6",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  status: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: "#EF4444",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 24,
+  },
+  areaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 4,
+  },
+  areaInfo: {
+    flex: 1,
+  },
+  areaName: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  areaMeta: {
+    fontSize: 13,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
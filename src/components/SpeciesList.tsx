@@ -0,0 +1,148 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from "react-native";
+import type { Observation } from "../types/observation";
+import { getTaxaColor } from "../utils/colors";
+import { summarizeSpecies } from "../utils/species";
+import type { SpeciesSummary } from "../utils/species";
+import { useTheme } from "../utils/theme";
+
+interface SpeciesListProps {
+  observations: Observation[];
+  userLocation: { latitude: number; longitude: number } | null;
+  highlightedSpecies: string | null;
+  onSelectSpecies: (speciesKey: string) => void;
+}
+
+function formatDistance(km: number | null): string | null {
+  if (km === null) return null;
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+function formatLastSeen(dateString?: string): string | null {
+  if (!dateString) return null;
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export const SpeciesList: React.FC<SpeciesListProps> = ({
+  observations,
+  userLocation,
+  highlightedSpecies,
+  onSelectSpecies,
+}) => {
+  const theme = useTheme();
+  const species = useMemo(
+    () => summarizeSpecies(observations, userLocation),
+    [observations, userLocation]
+  );
+
+  const renderItem = ({ item }: { item: SpeciesSummary }) => {
+    const distance = formatDistance(item.nearestKm);
+    const lastSeen = formatLastSeen(item.lastObservedAt);
+    const isHighlighted = item.key === highlightedSpecies;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.row,
+          { borderBottomColor: theme.border },
+          isHighlighted && { backgroundColor: theme.background.button },
+        ]}
+        onPress={() => onSelectSpecies(item.key)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.colorDot, { backgroundColor: getTaxaColor(item.taxaBucket) }]} />
+        <View style={styles.names}>
+          <Text style={[styles.commonName, { color: theme.text.primary }]} numberOfLines={1}>
+            {item.commonName || item.scientificName || "Unknown species"}
+          </Text>
+          {item.commonName && item.scientificName && (
+            <Text style={[styles.scientificName, { color: theme.text.secondary }]} numberOfLines={1}>
+              {item.scientificName}
+            </Text>
+          )}
+          <Text style={[styles.meta, { color: theme.text.muted }]} numberOfLines={1}>
+            {[lastSeen && `Last seen ${lastSeen}`, distance && `${distance} away`]
+              .filter(Boolean)
+              .join(" · ")}
+          </Text>
+        </View>
+        <Text style={[styles.count, { color: theme.text.primary }]}>{item.count}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Text style={[styles.summary, { color: theme.text.secondary }]}>
+        {species.length} species · {observations.length} observations in view
+      </Text>
+      <FlatList
+        data={species}
+        keyExtractor={(item) => item.key}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.text.muted }]}>
+            No observations in this area
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    paddingTop: 230, // Below the map controls
+  },
+  summary: {
+    fontSize: 14,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  names: {
+    flex: 1,
+  },
+  commonName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  scientificName: {
+    fontSize: 14,
+    fontStyle: "italic",
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  count: {
+    fontSize: 16,
+    fontWeight: "600",
+    minWidth: 32,
+    textAlign: "right",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Keyboard,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { FilterParams } from "../types/filters";
+import { hasSpeciesFilter } from "../types/filters";
+import type { TaxonSearchResult } from "../types/taxa";
+import { searchTaxa } from "../api/client";
+import { getTaxaColor } from "../utils/colors";
+import { useTheme } from "../utils/theme";
+
+interface SpeciesSearchBarProps {
+  filters: FilterParams;
+  onFiltersChange: (filters: FilterParams) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const SpeciesSearchBar: React.FC<SpeciesSearchBarProps> = ({
+  filters,
+  onFiltersChange,
+}) => {
+  const theme = useTheme();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<TaxonSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const latestQueryRef = useRef("");
+
+  const isFiltering = hasSpeciesFilter(filters);
+
+  // Clear the label when the species filter is removed elsewhere (e.g. Clear All)
+  useEffect(() => {
+    if (!isFiltering && !isFocused) {
+      setQuery("");
+    }
+  }, [isFiltering, isFocused]);
+
+  // Debounced autocomplete while typing
+  useEffect(() => {
+    if (!isFocused || query.trim().length < 2) {
+      setResults([]);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    latestQueryRef.current = query;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchTaxa(query);
+        // Ignore responses for queries the user has typed past
+        if (latestQueryRef.current === query) {
+          setResults(found);
+          setSearchError(null);
+        }
+      } catch {
+        if (latestQueryRef.current === query) {
+          setResults([]);
+          setSearchError("Search unavailable");
+        }
+      } finally {
+        if (latestQueryRef.current === query) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, isFocused]);
+
+  const handleSelect = (result: TaxonSearchResult) => {
+    setQuery(result.commonName || result.scientificName);
+    setResults([]);
+    setIsFocused(false);
+    Keyboard.dismiss();
+    onFiltersChange({
+      ...filters,
+      taxonIds: result.inatTaxonId !== undefined ? [result.inatTaxonId] : [],
+      speciesCodes: result.ebirdSpeciesCode ? [result.ebirdSpeciesCode] : [],
+    });
+  };
+
+  const handleClear = () => {
+    setQuery("");
+    setResults([]);
+    if (isFiltering) {
+      onFiltersChange({ ...filters, taxonIds: [], speciesCodes: [] });
+    }
+  };
+
+  const showDropdown = isFocused && (results.length > 0 || searchError !== null);
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={[
+          styles.inputContainer,
+          {
+            backgroundColor: theme.background.card,
+            shadowColor: theme.shadow.color,
+            shadowOpacity: theme.shadow.opacity,
+          },
+          isFiltering && styles.inputContainerActive,
+        ]}
+      >
+        <Ionicons name="search" size={18} color={theme.text.secondary} />
+        <TextInput
+          style={[styles.input, { color: theme.text.primary }]}
+          value={query}
+          onChangeText={setQuery}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Search species, e.g. river otter"
+          placeholderTextColor={theme.text.muted}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {isSearching && <ActivityIndicator size="small" color={theme.text.secondary} />}
+        {query.length > 0 && (
+          <TouchableOpacity onPress={handleClear} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={theme.text.muted} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showDropdown && (
+        <View
+          style={[
+            styles.dropdown,
+            {
+              backgroundColor: theme.background.card,
+              shadowColor: theme.shadow.color,
+              shadowOpacity: theme.shadow.opacity,
+            },
+          ]}
+        >
+          {searchError ? (
+            <Text style={[styles.errorText, { color: theme.text.muted }]}>{searchError}</Text>
+          ) : (
+            results.map((result) => (
+              <TouchableOpacity
+                key={result.id}
+                style={[styles.resultRow, { borderBottomColor: theme.border }]}
+                onPress={() => handleSelect(result)}
+              >
+                <View
+                  style={[styles.colorDot, { backgroundColor: getTaxaColor(result.taxaBucket) }]}
+                />
+                <View style={styles.resultNames}>
+                  <Text
+                    style={[styles.commonName, { color: theme.text.primary }]}
+                    numberOfLines={1}
+                  >
+                    {result.commonName || result.scientificName}
+                  </Text>
+                  {result.commonName && (
+                    <Text
+                      style={[styles.scientificName, { color: theme.text.secondary }]}
+                      numberOfLines={1}
+                    >
+                      {result.scientificName}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 70,
+    left: 16,
+    right: 16,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    height: 44,
+    borderRadius: 22,
+    paddingHorizontal: 14,
+    borderWidth: 2,
+    borderColor: "transparent",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  inputContainerActive: {
+    borderColor: "#3B82F6",
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+  },
+  dropdown: {
+    marginTop: 6,
+    borderRadius: 12,
+    overflow: "hidden",
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  resultNames: {
+    flex: 1,
+  },
+  commonName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  scientificName: {
+    fontSize: 13,
+    fontStyle: "italic",
+  },
+  errorText: {
+    fontSize: 14,
+    padding: 14,
+  },
+});
@@ -0,0 +1,180 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Observation } from "../types/observation";
+import type { AlertMatch, WatchedSpecies } from "../types/alerts";
+import { checkAlerts, searchTaxa } from "../api/client";
+import { getSpeciesKey } from "../utils/species";
+
+const STORAGE_KEY = "alerts";
+const MAX_RECENT_MATCHES = 20;
+
+export const ALERT_RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100];
+const DEFAULT_RADIUS_KM = 25;
+
+/**
+ * How new matches reach the user
+ * background = notifications from background checks, foreground = only
+ * while the app is open, denied = notifications are off, null = not set up
+ */
+export type AlertNotificationStatus = "background" | "foreground" | "denied" | null;
+
+export interface AlertLocation {
+  lat: number;
+  lng: number;
+  name?: string;
+}
+
+interface AlertState {
+  species: WatchedSpecies[];
+  radiusKm: number;
+  location: AlertLocation | null; // null = current location
+  notifiedIds: string[]; // Returned by the server, sent back to dedupe
+  recentMatches: AlertMatch[]; // Newest first
+  lastCheckedAt: string | null;
+  isChecking: boolean;
+  error: string | null;
+  notificationStatus: AlertNotificationStatus;
+
+  // Actions
+  watchSpecies: (observation: Observation) => Promise<void>;
+  unwatchSpecies: (speciesKey: string) => void;
+  setRadius: (radiusKm: number) => void;
+  setLocation: (location: AlertLocation | null) => void;
+  setNotificationStatus: (status: AlertNotificationStatus) => void;
+  checkNow: (currentLocation: { latitude: number; longitude: number } | null) => Promise<AlertMatch[]>;
+}
+
+/**
+ * Whether alerts can be set for an observation's species
+ * The server queries iNaturalist by taxon ID and eBird by species code
+ */
+export function canWatchSpecies(observation: Observation): boolean {
+  return (
+    (observation.provider === "inat" && observation.taxonId !== undefined) ||
+    !!observation.speciesCode
+  );
+}
+
+/**
+ * Build a watched species from an observation
+ * Looks the species up in taxa search so both providers are covered;
+ * falls back to the observation's own ID when the lookup fails
+ */
+async function toWatchedSpecies(observation: Observation): Promise<WatchedSpecies> {
+  const watched: WatchedSpecies = {
+    key: getSpeciesKey(observation),
+    commonName: observation.commonName,
+    scientificName: observation.scientificName,
+    inatTaxonId: observation.provider === "inat" ? observation.taxonId : undefined,
+    ebirdSpeciesCode: observation.speciesCode,
+  };
+
+  const scientificName = observation.scientificName?.toLowerCase();
+  if (scientificName) {
+    try {
+      const results = await searchTaxa(scientificName);
+      const match = results.find(
+        (result) => result.scientificName.toLowerCase() === scientificName
+      );
+      if (match) {
+        watched.inatTaxonId = watched.inatTaxonId ?? match.inatTaxonId;
+        watched.ebirdSpeciesCode = watched.ebirdSpeciesCode ?? match.ebirdSpeciesCode;
+      }
+    } catch (error) {
+      console.error("Error looking up watched species:", error);
+    }
+  }
+
+  return watched;
+}
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set, get) => ({
+      species: [],
+      radiusKm: DEFAULT_RADIUS_KM,
+      location: null,
+      notifiedIds: [],
+      recentMatches: [],
+      lastCheckedAt: null,
+      isChecking: false,
+      error: null,
+      notificationStatus: null,
+
+      watchSpecies: async (observation) => {
+        const key = getSpeciesKey(observation);
+        if (get().species.some((watched) => watched.key === key)) {
+          return;
+        }
+        const watched = await toWatchedSpecies(observation);
+        // Skip if it was added while looking it up
+        if (!get().species.some((existing) => existing.key === key)) {
+          set({ species: [...get().species, watched] });
+        }
+      },
+
+      unwatchSpecies: (speciesKey) =>
+        set((state) => ({
+          species: state.species.filter((watched) => watched.key !== speciesKey),
+        })),
+
+      setRadius: (radiusKm) => set({ radiusKm }),
+
+      setLocation: (location) => set({ location }),
+
+      setNotificationStatus: (notificationStatus) => set({ notificationStatus }),
+
+      checkNow: async (currentLocation) => {
+        const { species, radiusKm, location, notifiedIds, isChecking } = get();
+        const center = location
+          ? { lat: location.lat, lng: location.lng }
+          : currentLocation
+          ? { lat: currentLocation.latitude, lng: currentLocation.longitude }
+          : null;
+
+        if (isChecking || species.length === 0) {
+          return [];
+        }
+        if (!center) {
+          set({ error: "Location unavailable. Choose a saved location for alerts." });
+          return [];
+        }
+
+        set({ isChecking: true, error: null });
+        try {
+          const response = await checkAlerts({ species, center, radiusKm, notifiedIds });
+          set({
+            notifiedIds: response.notifiedIds,
+            recentMatches: [...response.matches, ...get().recentMatches].slice(
+              0,
+              MAX_RECENT_MATCHES
+            ),
+            lastCheckedAt: new Date().toISOString(),
+            isChecking: false,
+          });
+          return response.matches;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Failed to check alerts",
+            isChecking: false,
+          });
+          return [];
+        }
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      // Check state is per session
+      partialize: (state) => ({
+        species: state.species,
+        radiusKm: state.radiusKm,
+        location: state.location,
+        notifiedIds: state.notifiedIds,
+        recentMatches: state.recentMatches,
+        lastCheckedAt: state.lastCheckedAt,
+      }),
+    }
+  )
+);
@@ -0,0 +1,56 @@
+import { create } from "zustand";
+import type { Region } from "react-native-maps";
+import type { TaxaBucket } from "../types/observation";
+import type { FilterParams } from "../types/filters";
+import type { DensityResponse } from "../types/density";
+import { fetchDensity } from "../api/client";
+import { regionToViewportParams } from "../utils/viewport";
+
+interface DensityState {
+  enabled: boolean; // Show a heatmap instead of markers
+  taxa: TaxaBucket | null; // null = all taxa
+  serverDensity: DensityResponse | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  setTaxa: (taxa: TaxaBucket | null) => void;
+  fetchForViewport: (viewport: Region, filters: FilterParams) => Promise<void>;
+}
+
+export const useDensityStore = create<DensityState>((set) => {
+  // Identifies the latest request so slower earlier ones are dropped
+  let latestRequest = 0;
+
+  return {
+    enabled: false,
+    taxa: null,
+    serverDensity: null,
+    isLoading: false,
+    error: null,
+
+    setEnabled: (enabled) => set({ enabled, error: null }),
+
+    setTaxa: (taxa) => set({ taxa }),
+
+    fetchForViewport: async (viewport, filters) => {
+      const request = ++latestRequest;
+      set({ isLoading: true, error: null });
+
+      try {
+        const serverDensity = await fetchDensity(regionToViewportParams(viewport), filters);
+        if (request === latestRequest) {
+          set({ serverDensity, isLoading: false });
+        }
+      } catch (error) {
+        if (request === latestRequest) {
+          // The heatmap falls back to loaded observations
+          const errorMessage = error instanceof Error ? error.message : "Failed to fetch density";
+          set({ error: errorMessage, isLoading: false });
+        }
+        console.error("Error fetching density:", error);
+      }
+    },
+  };
+});
@@ -0,0 +1,86 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Observation } from "../types/observation";
+import type { LifeListEntry } from "../types/lifeList";
+import { getSpeciesKey } from "../utils/species";
+
+const STORAGE_KEY = "lifeList";
+
+interface LifeListState {
+  favorites: Record<string, Observation>; // Starred observations by ID
+  seenSpecies: Record<string, LifeListEntry>; // Species seen by the user, by species key
+
+  // Actions
+  toggleFavorite: (observation: Observation) => void;
+  markSeen: (observation: Observation) => void;
+  unmarkSeen: (speciesKey: string) => void;
+}
+
+export const useLifeListStore = create<LifeListState>()(
+  persist(
+    (set) => ({
+      favorites: {},
+      seenSpecies: {},
+
+      toggleFavorite: (observation) =>
+        set((state) => {
+          const favorites = { ...state.favorites };
+          if (favorites[observation.id]) {
+            delete favorites[observation.id];
+          } else {
+            // Upstream payloads are large and not needed to show a favorite
+            const { raw, ...rest } = observation;
+            favorites[observation.id] = rest;
+          }
+          return { favorites };
+        }),
+
+      markSeen: (observation) =>
+        set((state) => {
+          const key = getSpeciesKey(observation);
+          // Marking again keeps the original first-seen date
+          if (state.seenSpecies[key]) {
+            return state;
+          }
+          return {
+            seenSpecies: {
+              ...state.seenSpecies,
+              [key]: {
+                key,
+                commonName: observation.commonName,
+                scientificName: observation.scientificName,
+                taxaBucket: observation.taxaBucket,
+                firstSeenAt: new Date().toISOString(),
+              },
+            },
+          };
+        }),
+
+      unmarkSeen: (speciesKey) =>
+        set((state) => {
+          const seenSpecies = { ...state.seenSpecies };
+          delete seenSpecies[speciesKey];
+          return { seenSpecies };
+        }),
+    }),
+    {
+      name: STORAGE_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        favorites: state.favorites,
+        seenSpecies: state.seenSpecies,
+      }),
+    }
+  )
+);
+
+/**
+ * Whether the user has seen this observation's species
+ */
+export function hasSeenSpecies(
+  seenSpecies: Record<string, LifeListEntry>,
+  observation: Observation
+): boolean {
+  return getSpeciesKey(observation) in seenSpecies;
+}
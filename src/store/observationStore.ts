@@ -1,35 +1,82 @@
 import { create } from "zustand";
 import type { Observation } from "../types/observation";
 import type { Region } from "react-native-maps";
-import { fetchObservations } from "../api/client";
-import { regionToViewportParams } from "../utils/viewport";
+import { fetchObservationClusters, fetchObservations } from "../api/client";
+import { isWideViewport, regionToViewportParams } from "../utils/viewport";
 import type { FilterParams } from "../types/filters";
 import { DEFAULT_FILTERS } from "../types/filters";
+import type { ProviderStatusMap } from "../types/provider";
+import type { ObservationCluster } from "../types/cluster";
+import {
+  loadOfflineObservations,
+  saveOfflineObservations,
+} from "../utils/offlineCache";
+
+// Pages to load automatically after the first while the viewport is unchanged
+const MAX_AUTO_PAGES = 4;
 
 interface ObservationState {
   observations: Observation[];
   selectedObservation: Observation | null;
   viewport: Region | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
+  providerStatus: ProviderStatusMap;
+  nextCursor: string | null; // Next page for the current viewport
+  offlineSince: string | null; // ISO time of saved data shown while offline
   filters: FilterParams;
+  highlightedSpecies: string | null; // Species key from getSpeciesKey
+  clusters: ObservationCluster[]; // For the current viewport when zoomed out
+  clustersTruncated: boolean; // Cluster counts are lower bounds
   
   // Actions
   setObservations: (observations: Observation[]) => void;
   setSelectedObservation: (observation: Observation | null) => void;
   setViewport: (viewport: Region) => void;
   setFilters: (filters: FilterParams) => void;
+  setHighlightedSpecies: (speciesKey: string | null) => void;
   fetchObservationsForViewport: (viewport: Region) => Promise<void>;
+  fetchMoreObservations: (viewport: Region) => Promise<void>;
   clearError: () => void;
 }
 
+/**
+ * Merge new observations into existing ones, keyed by ID
+ * Merging instead of replacing keeps cluster counts accurate when zooming
+ */
+function mergeObservations(
+  existing: Observation[],
+  incoming: Observation[]
+): Observation[] {
+  const observationMap = new Map<string, Observation>();
+
+  existing.forEach((obs) => {
+    observationMap.set(obs.id, obs);
+  });
+
+  // Add/update with new observations
+  incoming.forEach((obs) => {
+    observationMap.set(obs.id, obs);
+  });
+
+  return Array.from(observationMap.values());
+}
+
 export const useObservationStore = create<ObservationState>((set, get) => ({
   observations: [],
   selectedObservation: null,
   viewport: null,
   isLoading: false,
+  isLoadingMore: false,
   error: null,
+  providerStatus: {},
+  nextCursor: null,
+  offlineSince: null,
   filters: DEFAULT_FILTERS,
+  highlightedSpecies: null,
+  clusters: [],
+  clustersTruncated: false,
 
   setObservations: (observations) => set({ observations }),
 
@@ -49,37 +96,110 @@ export const useObservationStore = create<ObservationState>((set, get) => ({
     }
   },
 
+  setHighlightedSpecies: (speciesKey) => set({ highlightedSpecies: speciesKey }),
+
   fetchObservationsForViewport: async (viewport: Region) => {
-    set({ isLoading: true, error: null });
+    set({ isLoading: true, error: null, nextCursor: null });
     
+    const viewportParams = regionToViewportParams(viewport);
+    const filters = get().filters;
+
     try {
-      const viewportParams = regionToViewportParams(viewport);
-      const filters = get().filters;
-      const newObservations = await fetchObservations(viewportParams, filters);
-      
-      // Merge with existing observations instead of replacing
-      // This ensures cluster counts remain accurate when zooming
-      const existingObservations = get().observations;
-      const observationMap = new Map<string, Observation>();
-      
-      // Add existing observations to map
-      existingObservations.forEach(obs => {
-        observationMap.set(obs.id, obs);
-      });
+      // Zoomed out, only cluster counts are needed to draw the map
+      if (isWideViewport(viewport)) {
+        const { clusters, truncated, providers } =
+          await fetchObservationClusters(viewportParams, filters);
+        set({
+          clusters,
+          clustersTruncated: truncated,
+          viewport,
+          providerStatus: providers,
+          offlineSince: null,
+          isLoading: false,
+        });
+        return;
+      }
+
+      const { observations: newObservations, providers, nextCursor } =
+        await fetchObservations(viewportParams, filters);
       
-      // Add/update with new observations
-      newObservations.forEach(obs => {
-        observationMap.set(obs.id, obs);
+      set({
+        observations: mergeObservations(get().observations, newObservations),
+        clusters: [],
+        clustersTruncated: false,
+        viewport,
+        providerStatus: providers,
+        nextCursor,
+        offlineSince: null,
+        isLoading: false,
       });
-      
-      // Convert back to array
-      const mergedObservations = Array.from(observationMap.values());
-      
-      set({ observations: mergedObservations, viewport, isLoading: false });
     } catch (error) {
+      // Fall back to data saved on device for this area
+      const offline = await loadOfflineObservations(viewportParams, filters);
+      if (offline) {
+        set({
+          observations: mergeObservations(get().observations, offline.observations),
+          clusters: [], // Saved observations are clustered on the device
+          clustersTruncated: false,
+          viewport,
+          providerStatus: {},
+          offlineSince: offline.savedAt,
+          isLoading: false,
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : "Failed to fetch observations";
-      set({ error: errorMessage, isLoading: false });
+      set({ error: errorMessage, providerStatus: {}, isLoading: false });
       console.error("Error fetching observations:", error);
+      return;
+    }
+
+    // Keep loading pages while the user stays on this viewport
+    for (
+      let page = 0;
+      page < MAX_AUTO_PAGES && get().nextCursor && get().viewport === viewport;
+      page++
+    ) {
+      await get().fetchMoreObservations(viewport);
+    }
+
+    // Save everything loaded for this area for offline use
+    saveOfflineObservations(viewportParams, filters, get().observations);
+  },
+
+  fetchMoreObservations: async (viewport: Region) => {
+    const { nextCursor, filters, isLoadingMore } = get();
+    // The cursor only applies to the viewport it was issued for
+    if (!nextCursor || isLoadingMore || get().viewport !== viewport) {
+      return;
+    }
+
+    set({ isLoadingMore: true });
+
+    try {
+      const page = await fetchObservations(
+        regionToViewportParams(viewport),
+        filters,
+        { cursor: nextCursor }
+      );
+
+      // Drop the page if the user moved on while it was loading
+      if (get().viewport !== viewport) {
+        set({ isLoadingMore: false });
+        return;
+      }
+
+      set({
+        observations: mergeObservations(get().observations, page.observations),
+        providerStatus: { ...get().providerStatus, ...page.providers },
+        nextCursor: page.nextCursor,
+        isLoadingMore: false,
+      });
+    } catch (error) {
+      // Keep what we have; a failed extra page isn't worth an error banner
+      set({ nextCursor: null, isLoadingMore: false });
+      console.error("Error fetching more observations:", error);
     }
   },
 
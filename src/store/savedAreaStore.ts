@@ -0,0 +1,201 @@
+import { create } from "zustand";
+import type { Region } from "react-native-maps";
+import type { Observation } from "../types/observation";
+import type { FilterParams } from "../types/filters";
+import { DEFAULT_FILTERS } from "../types/filters";
+import { PROVIDER_IDS } from "../types/provider";
+import { fetchObservations, fetchWikipediaSummary } from "../api/client";
+import { regionToViewportParams } from "../utils/viewport";
+import type { ViewportParams } from "../utils/viewport";
+import { getWikipediaTitles } from "../utils/wikipedia";
+import {
+  deleteSavedArea,
+  listSavedAreas,
+  loadOfflineWikipedia,
+  storeSavedArea,
+} from "../utils/offlineCache";
+import type { SavedArea } from "../utils/offlineCache";
+
+const PAGE_LIMIT = 500; // Server maximum
+const MAX_PAGES = 50; // Guards against runaway downloads for huge areas
+const MAX_AREA_OBSERVATIONS = 10000; // Keeps a saved area to a few MB on device
+
+export interface AreaDownloadProgress {
+  areaId: string;
+  phase: "observations" | "wikipedia";
+  completed: number;
+  total: number | null; // Unknown while paging observations
+}
+
+interface SavedAreaState {
+  areas: SavedArea[];
+  download: AreaDownloadProgress | null;
+  error: string | null;
+
+  // Actions
+  loadAreas: () => Promise<void>;
+  saveArea: (region: Region, recency: FilterParams["recency"], name?: string) => Promise<void>;
+  refreshArea: (id: string) => Promise<void>;
+  deleteArea: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Name an area after its most common place, falling back to coordinates
+ */
+function defaultAreaName(viewport: ViewportParams, observations: Observation[]): string {
+  const placeCounts = new Map<string, number>();
+  observations.forEach((obs) => {
+    if (obs.placeGuess) {
+      placeCounts.set(obs.placeGuess, (placeCounts.get(obs.placeGuess) || 0) + 1);
+    }
+  });
+
+  const [topPlace] = [...placeCounts.entries()].sort((a, b) => b[1] - a[1]);
+  return topPlace
+    ? topPlace[0]
+    : `${viewport.lat.toFixed(3)}, ${viewport.lng.toFixed(3)}`;
+}
+
+export const useSavedAreaStore = create<SavedAreaState>((set, get) => {
+  /**
+   * Download every observation and species summary for an area, then store it
+   * All taxa and providers are fetched so any filter works offline
+   */
+  const downloadArea = async (
+    area: Pick<SavedArea, "id" | "viewport" | "recency"> & { name?: string }
+  ) => {
+    if (get().download) {
+      return;
+    }
+
+    set({
+      download: { areaId: area.id, phase: "observations", completed: 0, total: null },
+      error: null,
+    });
+
+    const filters: FilterParams = {
+      ...DEFAULT_FILTERS,
+      recency: area.recency,
+      provider: [...PROVIDER_IDS],
+    };
+
+    try {
+      const observationMap = new Map<string, Observation>();
+      let cursor: string | null = null;
+      let page = 0;
+
+      do {
+        const response = await fetchObservations(area.viewport, filters, {
+          cursor,
+          limit: PAGE_LIMIT,
+        });
+        response.observations.forEach((obs) => {
+          observationMap.set(obs.id, obs);
+        });
+        if (observationMap.size > MAX_AREA_OBSERVATIONS) {
+          throw new Error(
+            `This area has more than ${MAX_AREA_OBSERVATIONS.toLocaleString()} observations. Zoom in to save a smaller area`
+          );
+        }
+        cursor = response.nextCursor;
+        page++;
+        set({
+          download: {
+            areaId: area.id,
+            phase: "observations",
+            completed: observationMap.size,
+            total: null,
+          },
+        });
+      } while (cursor && page < MAX_PAGES);
+
+      const observations = Array.from(observationMap.values());
+
+      // One summary per species; fetchWikipediaSummary saves each for offline use
+      const speciesTitles = new Map<string, string[]>();
+      observations.forEach((obs) => {
+        const key = obs.scientificName || obs.commonName;
+        if (key && !speciesTitles.has(key)) {
+          speciesTitles.set(key, getWikipediaTitles(obs));
+        }
+      });
+
+      let completed = 0;
+      for (const titles of speciesTitles.values()) {
+        set({
+          download: {
+            areaId: area.id,
+            phase: "wikipedia",
+            completed,
+            total: speciesTitles.size,
+          },
+        });
+
+        for (const title of titles) {
+          const summary =
+            (await loadOfflineWikipedia(title)) || (await fetchWikipediaSummary(title));
+          if (summary) break;
+        }
+        completed++;
+      }
+
+      await storeSavedArea(
+        {
+          id: area.id,
+          name: area.name || defaultAreaName(area.viewport, observations),
+          viewport: area.viewport,
+          recency: area.recency,
+          savedAt: new Date().toISOString(),
+          speciesCount: speciesTitles.size,
+        },
+        observations
+      );
+
+      set({ areas: await listSavedAreas(), download: null });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to download area";
+      set({ error: errorMessage, download: null });
+      console.error("Error downloading area:", error);
+    }
+  };
+
+  return {
+    areas: [],
+    download: null,
+    error: null,
+
+    loadAreas: async () => {
+      set({ areas: await listSavedAreas() });
+    },
+
+    saveArea: async (region, recency, name) => {
+      await downloadArea({
+        id: `area-${Date.now()}`,
+        name,
+        viewport: regionToViewportParams(region),
+        recency,
+      });
+    },
+
+    refreshArea: async (id) => {
+      const area = get().areas.find((a) => a.id === id);
+      if (!area) {
+        return;
+      }
+      await downloadArea(area);
+    },
+
+    deleteArea: async (id) => {
+      try {
+        await deleteSavedArea(id);
+        set({ areas: await listSavedAreas() });
+      } catch (error) {
+        set({ error: "Failed to delete area" });
+        console.error("Error deleting area:", error);
+      }
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
@@ -0,0 +1,51 @@
+import { create } from "zustand";
+import type { Region } from "react-native-maps";
+import type { SeasonalResponse } from "../types/seasonal";
+import { fetchSeasonal } from "../api/client";
+import { regionToViewportParams } from "../utils/viewport";
+
+interface SeasonalState {
+  enabled: boolean; // Show what's usually here instead of recent sightings
+  data: SeasonalResponse | null;
+  viewport: Region | null; // Viewport `data` was fetched for
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  fetchForViewport: (viewport: Region) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useSeasonalStore = create<SeasonalState>((set, get) => ({
+  enabled: false,
+  data: null,
+  viewport: null,
+  isLoading: false,
+  error: null,
+
+  setEnabled: (enabled) => set({ enabled, error: null }),
+
+  fetchForViewport: async (viewport: Region) => {
+    set({ isLoading: true, error: null, viewport });
+
+    try {
+      const data = await fetchSeasonal(regionToViewportParams(viewport));
+
+      // Drop the response if the user moved on while it was loading
+      if (get().viewport !== viewport) {
+        return;
+      }
+      set({ data, isLoading: false });
+    } catch (error) {
+      if (get().viewport !== viewport) {
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : "Failed to fetch seasonal data";
+      set({ error: errorMessage, isLoading: false });
+      console.error("Error fetching seasonal data:", error);
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,41 @@
+import type { WireObservation } from "./observation";
+import type { ProviderStatusMap } from "./provider";
+
+// Most recent IDs kept for dedupe; older ones have usually aged out of backDays
+export const MAX_NOTIFIED_IDS = 1000;
+
+/**
+ * A species on the alert watchlist
+ * iNaturalist is queried by taxon ID and eBird by species code, so
+ * species with neither can't be watched
+ */
+export interface WatchedSpecies {
+  key: string; // getSpeciesKey
+  commonName?: string;
+  scientificName?: string;
+  inatTaxonId?: number;
+  ebirdSpeciesCode?: string;
+}
+
+/**
+ * Body of POST /api/alerts
+ */
+export interface AlertsRequest {
+  species: WatchedSpecies[];
+  center: { lat: number; lng: number };
+  radiusKm: number;
+  backDays?: number; // How far back to look, default 1
+  notifiedIds: string[]; // Observations already alerted on, from the previous response
+}
+
+export interface AlertMatch {
+  speciesKey: string; // WatchedSpecies that matched
+  distanceKm: number; // From the watchlist center
+  observation: WireObservation;
+}
+
+export interface AlertsResponse {
+  matches: AlertMatch[]; // Only observations not alerted on before, nearest first
+  notifiedIds: string[]; // Send back with the next request
+  providers: ProviderStatusMap;
+}
@@ -0,0 +1,14 @@
+import type { TaxaBucket } from "./observation";
+
+/**
+ * Observations grouped by the server for wide viewports
+ */
+export interface ObservationCluster {
+  id: string; // Stable for the same grid cell and zoom
+  lat: number; // Centroid of the grouped observations
+  lng: number;
+  count: number;
+  individuals: number; // Reported individuals; uncounted observations count as one
+  taxa: Partial<Record<TaxaBucket, number>>; // Count per taxa bucket
+  bounds: { north: number; south: number; east: number; west: number }; // Of the grouped observations
+}
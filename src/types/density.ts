@@ -0,0 +1,20 @@
+import type { TaxaBucket } from "./observation";
+import type { ProviderStatusMap } from "./provider";
+
+/**
+ * Observation counts binned into a regular lat/lng grid
+ * Used for density layers where individual markers would be too many
+ */
+export interface DensityGrid {
+  bounds: { north: number; south: number; east: number; west: number };
+  rows: number;
+  cols: number;
+  counts: number[]; // Row-major, starting at the north-west cell
+  max: number; // Highest cell count, for scaling colors
+}
+
+export interface DensityResponse {
+  grid: DensityGrid; // Every observation
+  taxa: Partial<Record<TaxaBucket, DensityGrid>>; // One grid per taxa bucket present
+  providers: ProviderStatusMap;
+}
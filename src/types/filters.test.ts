@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { isCalendarDate } from "./filters";
+
+describe("isCalendarDate", () => {
+  it("accepts real calendar dates only", () => {
+    expect(isCalendarDate("2024-02-29")).toBe(true);
+    expect(isCalendarDate("2023-02-29")).toBe(false);
+    expect(isCalendarDate("2025-02-31")).toBe(false);
+    expect(isCalendarDate("2025-13-01")).toBe(false);
+    expect(isCalendarDate("2025-1-01")).toBe(false);
+    expect(isCalendarDate(null)).toBe(false);
+  });
+});
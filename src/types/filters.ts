@@ -1,32 +1,105 @@
-import type { Provider, TaxaBucket } from "./observation";
+import type { Observation, Provider, TaxaBucket } from "./observation";
+import { PROVIDER_IDS } from "./provider";
 
 export type RecencyFilter = "today" | "this_week" | "this_month" | null;
 
 export interface FilterParams {
   recency: RecencyFilter;
+  since: string | null; // YYYY-MM-DD; a custom range overrides recency
+  until: string | null; // YYYY-MM-DD, inclusive; null = today
   hasPhoto: boolean | null; // null = all, true = has photo, false = no photo
   taxa: TaxaBucket[]; // empty = all
   provider: Provider[]; // empty = all
+  taxonIds: number[]; // iNaturalist taxon IDs from species search, empty = all
+  speciesCodes: string[]; // eBird species codes from species search, empty = all
+  researchGradeOnly: boolean; // Only community-verified iNaturalist observations
+  observer: string | null; // Username or display name, case-insensitive
 }
 
 export const DEFAULT_FILTERS: FilterParams = {
   recency: "this_week",
+  since: null,
+  until: null,
   hasPhoto: null,
   taxa: [],
-  provider: ["ebird", "inat"], // Both providers selected by default
+  provider: [...PROVIDER_IDS], // All providers selected by default
+  taxonIds: [],
+  speciesCodes: [],
+  researchGradeOnly: false,
+  observer: null,
 };
 
+/**
+ * Check whether a custom date range replaces the recency preset
+ */
+export function hasCustomDateRange(filters: FilterParams): boolean {
+  return filters.since !== null;
+}
+
+/**
+ * Check whether a species search result is narrowing the filters
+ */
+export function hasSpeciesFilter(filters: FilterParams): boolean {
+  return filters.taxonIds.length > 0 || filters.speciesCodes.length > 0;
+}
+
+/**
+ * Whether a value is a real calendar date in YYYY-MM-DD format
+ * Rejects dates like 2025-02-31 that match the pattern but don't exist
+ */
+export function isCalendarDate(value: string | null | undefined): value is string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Username in an observer filter, written with a leading "@"
+ * Returns null when the filter is a name, which may also be a username
+ */
+export function getObserverLogin(observer: string | null): string | null {
+  const match = observer?.trim().match(/^@(\S+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Check whether an observation was reported by the filtered observer
+ * "@username" matches only the username; anything else matches the
+ * username or display name, ignoring case
+ */
+export function matchesObserver(observation: Observation, observer: string | null): boolean {
+  if (!observer) {
+    return true;
+  }
+  const login = getObserverLogin(observer);
+  if (login) {
+    return observation.observer?.login?.toLowerCase() === login.toLowerCase();
+  }
+  const wanted = observer.trim().toLowerCase();
+  return (
+    observation.observer?.login?.toLowerCase() === wanted ||
+    observation.observer?.name?.toLowerCase() === wanted
+  );
+}
+
 /**
  * Count the number of active filters
  */
 export function countActiveFilters(filters: FilterParams): number {
   let count = 0;
-  // Don't count default recency value
-  if (filters.recency !== null && filters.recency !== "this_week") count++;
+  // A custom range counts once; don't count default recency value
+  if (hasCustomDateRange(filters)) {
+    count++;
+  } else if (filters.recency !== null && filters.recency !== "this_week") {
+    count++;
+  }
   if (filters.hasPhoto !== null) count++;
   if (filters.taxa.length > 0) count++;
-  // Don't count providers when both are selected (default)
-  if (filters.provider.length > 0 && filters.provider.length < 2) count++;
+  // Don't count providers when all are selected (default)
+  if (filters.provider.length > 0 && filters.provider.length < PROVIDER_IDS.length) count++;
+  if (hasSpeciesFilter(filters)) count++;
+  if (filters.researchGradeOnly) count++;
+  if (filters.observer) count++;
   return count;
 }
 
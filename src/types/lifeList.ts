@@ -0,0 +1,12 @@
+import type { TaxaBucket } from "./observation";
+
+/**
+ * A species on the user's life list
+ */
+export interface LifeListEntry {
+  key: string; // getSpeciesKey
+  commonName?: string;
+  scientificName?: string;
+  taxaBucket: TaxaBucket;
+  firstSeenAt: string; // ISO timestamp of when it was marked seen
+}
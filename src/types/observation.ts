@@ -1,4 +1,6 @@
-export type Provider = "inat" | "ebird";
+import type { ProviderId } from "./provider";
+
+export type Provider = ProviderId;
 
 export type TaxaBucket =
   | "Bird"
@@ -13,6 +15,42 @@ export type TaxaBucket =
   | "Fungi"
   | "Other";
 
+export const TAXA_BUCKETS: TaxaBucket[] = [
+  "Bird",
+  "Mammal",
+  "Reptile",
+  "Amphibian",
+  "Fish",
+  "Insect",
+  "Arachnid",
+  "Mollusk",
+  "Plant",
+  "Fungi",
+  "Other",
+];
+
+// iNaturalist community identification status
+export type QualityGrade = "research" | "needs_id" | "casual";
+
+/**
+ * Person who reported an observation
+ */
+export interface Observer {
+  name?: string; // Display name
+  login?: string; // Username, where the provider has one
+}
+
+export type PhotoSize = "square" | "small" | "medium" | "large" | "original";
+
+/**
+ * Photo attached to an observation, with the credit its license requires
+ */
+export interface ObservationPhoto {
+  urls: Partial<Record<PhotoSize, string>>; // Providers offer different sizes
+  attribution?: string; // Credit line as given by the provider
+  licenseCode?: string; // Lowercase, e.g. "cc-by-nc" or "cc0"; undefined = all rights reserved
+}
+
 export type Observation = {
   id: string; // provider + providerId
   provider: Provider;
@@ -27,10 +65,28 @@ export type Observation = {
   scientificName?: string;
 
   taxaBucket: TaxaBucket;
+  taxonId?: number; // iNaturalist taxon ID
+  speciesCode?: string; // eBird species code
+
+  observer?: Observer;
+  qualityGrade?: QualityGrade; // iNaturalist only
+  identificationsCount?: number; // iNaturalist only
+  checklistId?: string; // eBird checklist (subId)
+  count?: number; // Individuals reported; undefined = not counted
 
-  photoUrl?: string;
+  photoUrl?: string; // Medium-sized first photo, for lists and markers
+  photos?: ObservationPhoto[]; // Every photo, in the provider's order
   detailUrl?: string;
 
-  raw: any; // Original API response for debugging
+  raw?: any; // Original API response; only sent on request (see WireObservation)
 };
 
+// Bump when the observations response changes incompatibly
+export const OBSERVATIONS_SCHEMA_VERSION = 1;
+
+/**
+ * Observation as sent by /api/observations
+ * The upstream payload is left out unless requested with debug=1
+ */
+export type WireObservation = Omit<Observation, "raw">;
+
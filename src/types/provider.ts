@@ -0,0 +1,150 @@
+import type { TaxaBucket } from "./observation";
+
+/**
+ * What a provider's upstream API can do. The server uses this to decide
+ * which providers to query for a given filter set, and the app uses it to
+ * describe sources in the filter sheet.
+ */
+export interface ProviderCapabilities {
+  spatialQuery: "bbox" | "centerRadius"; // How the upstream API is queried
+  photoFilter: boolean; // Upstream can filter by photo presence
+  providesPhotos: boolean; // Observations can include a photo
+  maxLookbackDays: number | null; // null = no limit
+  taxa: readonly TaxaBucket[] | null; // null = all taxa
+  speciesFilter: "taxonId" | "speciesCode" | null; // Species ID the upstream filters by
+  qualityGradeFilter: boolean; // Upstream reports community identification quality
+  observerLogin: boolean; // Observations carry the observer's username
+}
+
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Registry of known observation sources, shared by the app and the server
+ * To add a source, add its entry here and register its server/providers
+ * module in the registry, which fails to compile until it's registered
+ */
+export const PROVIDER_INFO = [
+  {
+    id: "ebird",
+    label: "eBird",
+    capabilities: {
+      spatialQuery: "centerRadius",
+      photoFilter: false,
+      providesPhotos: false,
+      maxLookbackDays: null, // Older than 30 days uses slower historic data
+      taxa: ["Bird"],
+      speciesFilter: "speciesCode",
+      qualityGradeFilter: false,
+      observerLogin: false,
+    },
+  },
+  {
+    id: "inat",
+    label: "iNaturalist",
+    capabilities: {
+      spatialQuery: "bbox",
+      photoFilter: true,
+      providesPhotos: true,
+      maxLookbackDays: null,
+      taxa: null,
+      speciesFilter: "taxonId",
+      qualityGradeFilter: true,
+      observerLogin: true,
+    },
+  },
+  {
+    id: "gbif",
+    label: "GBIF",
+    capabilities: {
+      spatialQuery: "bbox",
+      photoFilter: true,
+      providesPhotos: true,
+      maxLookbackDays: null,
+      taxa: null,
+      speciesFilter: null,
+      qualityGradeFilter: false,
+      observerLogin: false,
+    },
+  },
+] as const satisfies readonly ProviderInfo[];
+
+export type ProviderId = (typeof PROVIDER_INFO)[number]["id"];
+
+export const PROVIDER_IDS: ProviderId[] = PROVIDER_INFO.map((info) => info.id);
+
+/**
+ * Outcome of querying a single provider for one request
+ */
+export interface ProviderStatus {
+  status: "ok" | "error";
+  count: number; // Observations returned by the provider
+  latencyMs: number;
+  error?: string;
+  dropped?: number; // Malformed upstream records skipped
+  partial?: string; // Why only part of the request could be served
+}
+
+export type ProviderStatusMap = Partial<Record<ProviderId, ProviderStatus>>;
+
+/**
+ * Check whether a string is a registered provider ID
+ */
+export function isProviderId(value: string): value is ProviderId {
+  return (PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Get registry info for a provider
+ */
+export function getProviderInfo(id: ProviderId): ProviderInfo {
+  return PROVIDER_INFO.find((info) => info.id === id)!;
+}
+
+/**
+ * Get display label for a provider
+ */
+export function getProviderLabel(id: ProviderId): string {
+  return getProviderInfo(id).label;
+}
+
+/**
+ * Describe failed and partially served providers for a non-blocking banner
+ * Returns null when every queried provider fully succeeded
+ */
+export function describeProviderFailures(
+  statuses: ProviderStatusMap
+): string | null {
+  const entries = Object.entries(statuses) as Array<[ProviderId, ProviderStatus]>;
+  const failed = entries
+    .filter(([, status]) => status.status === "error")
+    .map(([id]) => getProviderLabel(id));
+  const succeeded = entries
+    .filter(([, status]) => status.status === "ok")
+    .map(([id]) => getProviderLabel(id));
+  const partial = entries
+    .filter(([, status]) => status.status === "ok" && status.partial)
+    .map(([, status]) => status.partial!);
+
+  if (failed.length === 0) {
+    return partial.length > 0 ? partial.join(". ") : null;
+  }
+
+  const failedText = `${joinLabels(failed)} unavailable`;
+  const text =
+    succeeded.length === 0
+      ? failedText
+      : `${failedText} — showing ${joinLabels(succeeded)} only`;
+
+  return [text, ...partial].join(". ");
+}
+
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) {
+    return labels.join("");
+  }
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,269 @@
+import { z } from "zod";
+import { TAXA_BUCKETS } from "./observation";
+import type { ObservationPhoto, TaxaBucket, WireObservation } from "./observation";
+import { isProviderId } from "./provider";
+import type { ProviderId, ProviderStatus } from "./provider";
+import type { ObservationCluster } from "./cluster";
+import type { DensityGrid } from "./density";
+import type { SeasonalSpecies } from "./seasonal";
+import type { TaxonSearchResult } from "./taxa";
+import type { WikipediaSummary } from "./wikipedia";
+import { MAX_NOTIFIED_IDS } from "./alerts";
+import type { AlertsRequest } from "./alerts";
+
+/**
+ * Runtime schemas for payloads crossing the network
+ * Each is typed against the matching TypeScript type so the two can't drift
+ */
+
+export const taxaBucketSchema = z.enum(TAXA_BUCKETS as [TaxaBucket, ...TaxaBucket[]]);
+
+export const providerIdSchema = z
+  .string()
+  .refine((value): value is ProviderId => isProviderId(value));
+
+/**
+ * Latitude/longitude pair that can be placed on the map
+ * 0,0 is rejected: it almost always means the source had no location
+ */
+export const coordinatesSchema = z
+  .object({
+    lat: z.number().finite().min(-90).max(90),
+    lng: z.number().finite().min(-180).max(180),
+  })
+  .refine(({ lat, lng }) => lat !== 0 || lng !== 0, {
+    message: "Missing location (0,0)",
+  });
+
+export const observationPhotoSchema: z.ZodType<ObservationPhoto> = z.object({
+  urls: z.object({
+    square: z.string().optional(),
+    small: z.string().optional(),
+    medium: z.string().optional(),
+    large: z.string().optional(),
+    original: z.string().optional(),
+  }),
+  attribution: z.string().optional(),
+  licenseCode: z.string().optional(),
+});
+
+export const wireObservationSchema: z.ZodType<WireObservation, z.ZodTypeDef, unknown> = z
+  .object({
+    id: z.string().min(1),
+    provider: providerIdSchema,
+    lat: z.number(),
+    lng: z.number(),
+    observedAt: z.string().optional(),
+    placeGuess: z.string().optional(),
+    commonName: z.string().optional(),
+    scientificName: z.string().optional(),
+    taxaBucket: taxaBucketSchema,
+    taxonId: z.number().optional(),
+    speciesCode: z.string().optional(),
+    observer: z
+      .object({
+        name: z.string().optional(),
+        login: z.string().optional(),
+      })
+      .optional(),
+    qualityGrade: z.enum(["research", "needs_id", "casual"]).optional(),
+    identificationsCount: z.number().optional(),
+    checklistId: z.string().optional(),
+    count: z.number().optional(),
+    photoUrl: z.string().optional(),
+    photos: z.array(observationPhotoSchema).optional(),
+    detailUrl: z.string().optional(),
+  })
+  .and(coordinatesSchema);
+
+export const providerStatusSchema: z.ZodType<ProviderStatus> = z.object({
+  status: z.enum(["ok", "error"]),
+  count: z.number(),
+  latencyMs: z.number(),
+  error: z.string().optional(),
+  dropped: z.number().optional(),
+  partial: z.string().optional(),
+});
+
+export const providerStatusMapSchema = z.record(z.string(), providerStatusSchema);
+
+export const diagnosticsSchema = z.object({
+  dropped: z.number(), // Records dropped as malformed
+});
+
+export type Diagnostics = z.infer<typeof diagnosticsSchema>;
+
+/**
+ * Top level of /api/observations; observations are validated one by one
+ * so a single bad record doesn't fail the whole page
+ */
+export const observationsResponseSchema = z.object({
+  schemaVersion: z.number(),
+  observations: z.array(z.unknown()),
+  providers: providerStatusMapSchema,
+  nextCursor: z.string().nullable(),
+  diagnostics: diagnosticsSchema.optional(),
+});
+
+export const observationClusterSchema: z.ZodType<ObservationCluster> = z.object({
+  id: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  count: z.number(),
+  individuals: z.number(),
+  taxa: z.record(taxaBucketSchema, z.number()),
+  bounds: z.object({
+    north: z.number(),
+    south: z.number(),
+    east: z.number(),
+    west: z.number(),
+  }),
+});
+
+export const clustersResponseSchema = z.object({
+  clusters: z.array(observationClusterSchema),
+  total: z.number(),
+  truncated: z.boolean(),
+  providers: providerStatusMapSchema,
+  diagnostics: diagnosticsSchema.optional(),
+});
+
+export const taxonSearchResultSchema: z.ZodType<TaxonSearchResult, z.ZodTypeDef, unknown> =
+  z.object({
+    id: z.string().min(1),
+    commonName: z.string().optional(),
+    scientificName: z.string(),
+    taxaBucket: taxaBucketSchema,
+    photoUrl: z.string().optional(),
+    inatTaxonId: z.number().optional(),
+    ebirdSpeciesCode: z.string().optional(),
+  });
+
+/**
+ * Top level of /api/taxa/search; results are validated one by one
+ */
+export const taxaSearchResponseSchema = z.object({
+  results: z.array(z.unknown()),
+});
+
+export const densityGridSchema: z.ZodType<DensityGrid> = z.object({
+  bounds: z.object({
+    north: z.number(),
+    south: z.number(),
+    east: z.number(),
+    west: z.number(),
+  }),
+  rows: z.number().int().nonnegative(),
+  cols: z.number().int().nonnegative(),
+  counts: z.array(z.number()),
+  max: z.number(),
+});
+
+export const densityResponseSchema = z.object({
+  grid: densityGridSchema,
+  taxa: z.record(taxaBucketSchema, densityGridSchema),
+  providers: providerStatusMapSchema,
+});
+
+export const seasonalSpeciesSchema: z.ZodType<SeasonalSpecies> = z.object({
+  key: z.string(),
+  commonName: z.string().optional(),
+  scientificName: z.string(),
+  taxaBucket: taxaBucketSchema,
+  yearsSeen: z.number(),
+  frequency: z.number(),
+  count: z.number(),
+  inatTaxonId: z.number().optional(),
+  ebirdSpeciesCode: z.string().optional(),
+});
+
+export const seasonalResponseSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  years: z.array(z.number()),
+  species: z.array(seasonalSpeciesSchema),
+  density: densityGridSchema,
+  providers: providerStatusMapSchema,
+});
+
+export const wikipediaSummarySchema: z.ZodType<WikipediaSummary> = z
+  .object({
+    type: z.string().optional(),
+    title: z.string().optional(),
+    displaytitle: z.string().optional(),
+    extract: z.string().optional(),
+    thumbnail: z
+      .object({
+        source: z.string(),
+        width: z.number().optional(),
+        height: z.number().optional(),
+      })
+      .optional(),
+    content_urls: z
+      .object({
+        desktop: z.object({ page: z.string() }).optional(),
+        mobile: z.object({ page: z.string() }).optional(),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+const MAX_WATCHED_SPECIES = 20; // eBird needs a request per species
+const MAX_ALERT_RADIUS_KM = 100;
+const MAX_ALERT_BACK_DAYS = 7;
+
+/**
+ * Body of POST /api/alerts
+ * Each species needs an iNaturalist taxon ID or an eBird species code to be queried
+ */
+export const alertsRequestSchema: z.ZodType<AlertsRequest, z.ZodTypeDef, unknown> = z.object({
+  species: z
+    .array(
+      z
+        .object({
+          key: z.string().min(1),
+          commonName: z.string().optional(),
+          scientificName: z.string().optional(),
+          inatTaxonId: z.number().int().positive().optional(),
+          ebirdSpeciesCode: z.string().regex(/^[a-z0-9]+$/i).optional(),
+        })
+        .refine((species) => species.inatTaxonId !== undefined || !!species.ebirdSpeciesCode, {
+          message: "Needs inatTaxonId or ebirdSpeciesCode",
+        })
+    )
+    .min(1)
+    .max(MAX_WATCHED_SPECIES),
+  center: coordinatesSchema,
+  radiusKm: z.number().positive().max(MAX_ALERT_RADIUS_KM),
+  backDays: z.number().int().min(1).max(MAX_ALERT_BACK_DAYS).optional(),
+  notifiedIds: z.array(z.string()).max(MAX_NOTIFIED_IDS),
+});
+
+export const alertsResponseSchema = z.object({
+  matches: z.array(
+    z.object({
+      speciesKey: z.string(),
+      distanceKm: z.number(),
+      observation: z.unknown(),
+    })
+  ),
+  notifiedIds: z.array(z.string()),
+  providers: providerStatusMapSchema,
+});
+
+/**
+ * Keep the items of a list that match a schema
+ * Returns how many were dropped so callers can report them
+ */
+export function parseEach<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  items: unknown[]
+): { valid: T[]; dropped: number } {
+  const valid: T[] = [];
+  items.forEach((item) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    }
+  });
+  return { valid, dropped: items.length - valid.length };
+}
@@ -0,0 +1,26 @@
+import type { TaxaBucket } from "./observation";
+import type { ProviderStatusMap } from "./provider";
+import type { DensityGrid } from "./density";
+
+/**
+ * Species seen around this time of year in past years
+ */
+export interface SeasonalSpecies {
+  key: string; // Lowercased scientific name
+  commonName?: string;
+  scientificName: string;
+  taxaBucket: TaxaBucket;
+  yearsSeen: number; // Past years with at least one observation
+  frequency: number; // yearsSeen / years queried, 0-1
+  count: number; // Observations across all years
+  inatTaxonId?: number;
+  ebirdSpeciesCode?: string;
+}
+
+export interface SeasonalResponse {
+  month: number; // Calendar month aggregated, 1-12
+  years: number[]; // Past years queried, newest first
+  species: SeasonalSpecies[]; // Most likely first
+  density: DensityGrid;
+  providers: ProviderStatusMap;
+}
@@ -0,0 +1,19 @@
+import type { TaxaBucket } from "./observation";
+
+/**
+ * Species returned by taxa search autocomplete
+ * Results found in both iNaturalist and eBird carry both IDs
+ */
+export interface TaxonSearchResult {
+  id: string; // Stable key, e.g. "inat-41860" or "ebird-baleag"
+  commonName?: string;
+  scientificName: string;
+  taxaBucket: TaxaBucket;
+  photoUrl?: string;
+  inatTaxonId?: number;
+  ebirdSpeciesCode?: string;
+}
+
+export interface TaxaSearchResponse {
+  results: TaxonSearchResult[];
+}
@@ -0,0 +1,138 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import * as Location from "expo-location";
+import type { AlertMatch } from "../types/alerts";
+import { useAlertStore } from "../store/alertStore";
+import type { AlertNotificationStatus } from "../store/alertStore";
+
+const ALERT_TASK_NAME = "species-alerts";
+const ANDROID_CHANNEL_ID = "species-alerts";
+const MAX_NOTIFICATIONS = 5; // Per check; the rest are listed in the alerts sheet
+
+// Alerts are checked at most this often; the OS may run background checks less often
+export const ALERT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Show alert notifications while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Whether enough time has passed since the last alert check
+ */
+export function isAlertCheckDue(lastCheckedAt: string | null): boolean {
+  return !lastCheckedAt || Date.now() - Date.parse(lastCheckedAt) >= ALERT_CHECK_INTERVAL_MS;
+}
+
+/**
+ * Post a local notification for each new sighting of a watched species
+ * Tapping one opens the observation (see getNotificationObservationId)
+ */
+export async function notifyAlertMatches(matches: AlertMatch[]): Promise<void> {
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: "Species alerts",
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  for (const match of matches.slice(0, MAX_NOTIFICATIONS)) {
+    const { observation } = match;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `${observation.commonName || observation.scientificName || "Watched species"} nearby`,
+        body: [`${match.distanceKm} km away`, observation.placeGuess].filter(Boolean).join(" · "),
+        data: { observationId: observation.id },
+      },
+      trigger: Platform.OS === "android" ? { channelId: ANDROID_CHANNEL_ID } : null,
+    });
+  }
+}
+
+/**
+ * Observation an alert notification was posted for, if it was one
+ */
+export function getNotificationObservationId(
+  response: Notifications.NotificationResponse
+): string | null {
+  const observationId = response.notification.request.content.data?.observationId;
+  return typeof observationId === "string" ? observationId : null;
+}
+
+/**
+ * Check the watchlist and notify about new matches
+ * Uses the saved alert location, else the last known device location
+ */
+async function checkAlertsInBackground(): Promise<BackgroundFetch.BackgroundFetchResult> {
+  // The task can run without the app's UI, so load the persisted watchlist first
+  await useAlertStore.persist.rehydrate();
+  const { species, location, lastCheckedAt } = useAlertStore.getState();
+  if (species.length === 0 || !isAlertCheckDue(lastCheckedAt)) {
+    return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+
+  const position = location ? null : await Location.getLastKnownPositionAsync();
+  const matches = await useAlertStore.getState().checkNow(position?.coords ?? null);
+  if (useAlertStore.getState().error) {
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+
+  await notifyAlertMatches(matches);
+  return matches.length > 0
+    ? BackgroundFetch.BackgroundFetchResult.NewData
+    : BackgroundFetch.BackgroundFetchResult.NoData;
+}
+
+// Defined when this module loads, so it must be imported before the app renders
+TaskManager.defineTask(ALERT_TASK_NAME, async () => {
+  try {
+    return await checkAlertsInBackground();
+  } catch (error) {
+    console.error("Error checking alerts in the background:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Register background alert checks while species are watched, and remove
+ * them when the watchlist is empty
+ * Asks for notification permission the first time a species is watched
+ */
+export async function syncAlertNotifications(watching: boolean): Promise<AlertNotificationStatus> {
+  const registered = await TaskManager.isTaskRegisteredAsync(ALERT_TASK_NAME);
+  if (!watching) {
+    if (registered) {
+      await BackgroundFetch.unregisterTaskAsync(ALERT_TASK_NAME);
+    }
+    return null;
+  }
+
+  let permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted && permission.canAskAgain) {
+    permission = await Notifications.requestPermissionsAsync();
+  }
+  if (!permission.granted) {
+    return "denied";
+  }
+
+  // Background fetch can be turned off by the user or by Low Power Mode
+  const fetchStatus = await BackgroundFetch.getStatusAsync();
+  if (fetchStatus !== BackgroundFetch.BackgroundFetchStatus.Available) {
+    return "foreground";
+  }
+
+  if (!registered) {
+    await BackgroundFetch.registerTaskAsync(ALERT_TASK_NAME, {
+      minimumInterval: ALERT_CHECK_INTERVAL_MS / 1000,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+  }
+  return "background";
+}
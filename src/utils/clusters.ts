@@ -0,0 +1,60 @@
+import type { Observation, TaxaBucket } from "../types/observation";
+
+export type TaxaCounts = Partial<Record<TaxaBucket, number>>;
+
+export interface TaxaShare {
+  taxaBucket: TaxaBucket;
+  count: number;
+  fraction: number; // 0-1 of the cluster total
+}
+
+/**
+ * Count observations per taxa bucket
+ */
+export function countTaxa(observations: Observation[]): TaxaCounts {
+  const counts: TaxaCounts = {};
+  observations.forEach((obs) => {
+    counts[obs.taxaBucket] = (counts[obs.taxaBucket] || 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Sum reported individuals; observations without a count count as one
+ */
+export function countIndividuals(observations: Observation[]): number {
+  return observations.reduce((sum, obs) => sum + (obs.count ?? 1), 0);
+}
+
+/**
+ * Short count for cluster markers, e.g. 1200 -> "1.2k"
+ */
+export function formatCount(count: number): string {
+  if (count < 1000) return count.toString();
+  if (count < 10000) return `${(count / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  return `${Math.round(count / 1000)}k`;
+}
+
+/**
+ * List taxa buckets by share of the total, largest first
+ */
+export function getTaxaShares(counts: TaxaCounts): TaxaShare[] {
+  const entries = Object.entries(counts) as Array<[TaxaBucket, number]>;
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return [];
+
+  return entries
+    .filter(([, count]) => count > 0)
+    .map(([taxaBucket, count]) => ({ taxaBucket, count, fraction: count / total }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Describe the largest taxa bucket, e.g. "Mostly Bird (62%)"
+ */
+export function describeDominantTaxa(counts: TaxaCounts): string | null {
+  const [dominant] = getTaxaShares(counts);
+  if (!dominant) return null;
+  if (dominant.fraction === 1) return `All ${dominant.taxaBucket}`;
+  return `Mostly ${dominant.taxaBucket} (${Math.round(dominant.fraction * 100)}%)`;
+}
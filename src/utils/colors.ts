@@ -24,5 +24,12 @@ export function getTaxaColor(taxaBucket: TaxaBucket): string {
   return TAXA_COLORS[taxaBucket] || TAXA_COLORS.Other;
 }
 
-
-
+/**
+ * Convert a #RRGGBB color to rgba() with the given opacity (0-1)
+ */
+export function withAlpha(hexColor: string, alpha: number): string {
+  const red = parseInt(hexColor.slice(1, 3), 16);
+  const green = parseInt(hexColor.slice(3, 5), 16);
+  const blue = parseInt(hexColor.slice(5, 7), 16);
+  return `rgba(${red}, ${green}, ${blue}, ${alpha})`;
+}
@@ -0,0 +1,51 @@
+import type { DensityGrid } from "../types/density";
+
+/**
+ * Bin points into a grid covering the bounds
+ * Cells are roughly square; `cells` is the count along the longer side
+ */
+export function binPoints(
+  points: Array<{ lat: number; lng: number }>,
+  bounds: DensityGrid["bounds"],
+  cells: number
+): DensityGrid {
+  const latSpan = bounds.north - bounds.south;
+  const lngSpan = bounds.east - bounds.west;
+  const cellSize = Math.max(latSpan, lngSpan) / cells;
+  const rows = Math.max(1, Math.round(latSpan / cellSize));
+  const cols = Math.max(1, Math.round(lngSpan / cellSize));
+
+  const counts = new Array<number>(rows * cols).fill(0);
+  let max = 0;
+
+  points.forEach(({ lat, lng }) => {
+    if (lat > bounds.north || lat < bounds.south || lng > bounds.east || lng < bounds.west) {
+      return;
+    }
+    const row = Math.min(rows - 1, Math.floor(((bounds.north - lat) / latSpan) * rows));
+    const col = Math.min(cols - 1, Math.floor(((lng - bounds.west) / lngSpan) * cols));
+    const index = row * cols + col;
+    counts[index]++;
+    max = Math.max(max, counts[index]);
+  });
+
+  return { bounds, rows, cols, counts, max };
+}
+
+/**
+ * Get the bounds of one grid cell
+ */
+export function getCellBounds(
+  grid: DensityGrid,
+  row: number,
+  col: number
+): DensityGrid["bounds"] {
+  const latStep = (grid.bounds.north - grid.bounds.south) / grid.rows;
+  const lngStep = (grid.bounds.east - grid.bounds.west) / grid.cols;
+  return {
+    north: grid.bounds.north - row * latStep,
+    south: grid.bounds.north - (row + 1) * latStep,
+    west: grid.bounds.west + col * lngStep,
+    east: grid.bounds.west + (col + 1) * lngStep,
+  };
+}
@@ -0,0 +1,33 @@
+import { TAXA_BUCKETS } from "../types/observation";
+import type { TaxaBucket } from "../types/observation";
+import type { LifeListEntry } from "../types/lifeList";
+
+export interface LifeListSection {
+  taxaBucket: TaxaBucket;
+  data: LifeListEntry[];
+}
+
+/**
+ * Group life list species by taxa, in legend order
+ * Species within a group are listed by when they were first seen, newest first
+ */
+export function groupLifeList(seenSpecies: Record<string, LifeListEntry>): LifeListSection[] {
+  const entries = Object.values(seenSpecies);
+  return TAXA_BUCKETS.map((taxaBucket) => ({
+    taxaBucket,
+    data: entries
+      .filter((entry) => entry.taxaBucket === taxaBucket)
+      .sort((a, b) => b.firstSeenAt.localeCompare(a.firstSeenAt)),
+  })).filter((section) => section.data.length > 0);
+}
+
+/**
+ * Format a life list date, e.g. "Jun 3, 2026"
+ */
+export function formatSeenDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,476 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import type { Observation } from "../types/observation";
+import type { WikipediaSummary } from "../types/wikipedia";
+import type { FilterParams } from "../types/filters";
+import { hasSpeciesFilter, matchesObserver } from "../types/filters";
+import type { ViewportParams } from "./viewport";
+
+const INDEX_KEY = "offline:index";
+const OBSERVATIONS_PREFIX = "offline:observations:";
+const WIKIPEDIA_PREFIX = "offline:wikipedia:";
+const SAVED_AREAS_KEY = "offline:saved-areas";
+const SAVED_AREA_PREFIX = "offline:saved-area:"; // Areas saved before they moved to files
+const PHOTO_INDEX_KEY = "offline:photos";
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}offline-photos/`;
+// Saved areas can be several MB, past AsyncStorage's per-row limit on Android
+const AREA_DIRECTORY = `${FileSystem.documentDirectory}offline-areas/`;
+const MAX_AREAS = 50;
+const MAX_PHOTO_BYTES = 100 * 1024 * 1024; // Least recently viewed photos are evicted past this
+
+/**
+ * Saved area index entry
+ * Observations for each area live under their own storage key
+ */
+export interface OfflineArea {
+  key: string;
+  filtersKey: string;
+  bounds: { north: number; south: number; east: number; west: number };
+  savedAt: string; // ISO
+  count: number;
+}
+
+/**
+ * Area the user explicitly downloaded for offline use
+ * Never evicted; holds all taxa and providers for the saved recency
+ */
+export interface SavedArea {
+  id: string;
+  name: string;
+  viewport: ViewportParams;
+  recency: FilterParams["recency"];
+  savedAt: string; // ISO
+  observationCount: number;
+  speciesCount: number;
+  sizeBytes: number; // Approximate stored size of observations
+}
+
+/**
+ * Photo index entry, most recently viewed first
+ */
+interface OfflinePhoto {
+  file: string; // File name in the photo directory
+  sizeBytes: number;
+}
+
+export interface OfflineObservations {
+  observations: Observation[];
+  savedAt: string; // ISO, oldest area used
+}
+
+/**
+ * Stable key for a filter set
+ */
+export function getFiltersKey(filters: FilterParams): string {
+  return JSON.stringify({
+    recency: filters.recency,
+    since: filters.since,
+    until: filters.until,
+    hasPhoto: filters.hasPhoto,
+    taxa: [...filters.taxa].sort(),
+    provider: [...filters.provider].sort(),
+    taxonIds: [...filters.taxonIds].sort((a, b) => a - b),
+    speciesCodes: [...filters.speciesCodes].sort(),
+    researchGradeOnly: filters.researchGradeOnly,
+    observer: filters.observer?.toLowerCase() ?? null,
+  });
+}
+
+function viewportToBounds(viewport: ViewportParams): OfflineArea["bounds"] {
+  return {
+    north: viewport.lat + viewport.latDelta / 2,
+    south: viewport.lat - viewport.latDelta / 2,
+    east: viewport.lng + viewport.lngDelta / 2,
+    west: viewport.lng - viewport.lngDelta / 2,
+  };
+}
+
+function matchesFilters(obs: Observation, filters: FilterParams): boolean {
+  if (filters.taxa.length > 0 && !filters.taxa.includes(obs.taxaBucket)) {
+    return false;
+  }
+  if (filters.provider.length > 0 && !filters.provider.includes(obs.provider)) {
+    return false;
+  }
+  if (filters.hasPhoto !== null && (obs.photoUrl !== undefined) !== filters.hasPhoto) {
+    return false;
+  }
+  if (
+    hasSpeciesFilter(filters) &&
+    !(obs.taxonId !== undefined && filters.taxonIds.includes(obs.taxonId)) &&
+    !(obs.speciesCode !== undefined && filters.speciesCodes.includes(obs.speciesCode))
+  ) {
+    return false;
+  }
+  if (filters.researchGradeOnly && obs.qualityGrade !== "research") {
+    return false;
+  }
+  if (!matchesObserver(obs, filters.observer)) {
+    return false;
+  }
+  return true;
+}
+
+function boundsIntersect(
+  a: OfflineArea["bounds"],
+  b: OfflineArea["bounds"]
+): boolean {
+  return a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+}
+
+async function readIndex(): Promise<OfflineArea[]> {
+  try {
+    const stored = await AsyncStorage.getItem(INDEX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading offline index:", error);
+    return [];
+  }
+}
+
+async function writeIndex(areas: OfflineArea[]): Promise<void> {
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(areas));
+}
+
+/**
+ * Save observations inside a viewport for a filter set
+ * Raw provider payloads are dropped to keep storage small
+ */
+export async function saveOfflineObservations(
+  viewport: ViewportParams,
+  filters: FilterParams,
+  observations: Observation[]
+): Promise<void> {
+  try {
+    const bounds = viewportToBounds(viewport);
+    const filtersKey = getFiltersKey(filters);
+    // Round so tiny pans overwrite the same area instead of piling up
+    const key = [bounds.north, bounds.south, bounds.east, bounds.west]
+      .map((value) => value.toFixed(2))
+      .join(",") + `|${filtersKey}`;
+
+    const inBounds = observations.filter(
+      (obs) =>
+        obs.lat <= bounds.north &&
+        obs.lat >= bounds.south &&
+        obs.lng <= bounds.east &&
+        obs.lng >= bounds.west
+    );
+
+    const area: OfflineArea = {
+      key,
+      filtersKey,
+      bounds,
+      savedAt: new Date().toISOString(),
+      count: inBounds.length,
+    };
+
+    await AsyncStorage.setItem(
+      OBSERVATIONS_PREFIX + key,
+      JSON.stringify(inBounds.map((obs) => ({ ...obs, raw: null })))
+    );
+
+    // Newest first; evict the oldest areas past the limit
+    const areas = [area, ...(await readIndex()).filter((a) => a.key !== key)];
+    const evicted = areas.splice(MAX_AREAS);
+    await writeIndex(areas);
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map((a) => OBSERVATIONS_PREFIX + a.key));
+    }
+  } catch (error) {
+    console.error("Error saving offline observations:", error);
+  }
+}
+
+/**
+ * Load saved observations overlapping a viewport for a filter set
+ * Returns null when nothing was saved for the area
+ */
+export async function loadOfflineObservations(
+  viewport: ViewportParams,
+  filters: FilterParams
+): Promise<OfflineObservations | null> {
+  try {
+    const bounds = viewportToBounds(viewport);
+    const filtersKey = getFiltersKey(filters);
+    const areas = (await readIndex()).filter(
+      (area) => area.filtersKey === filtersKey && boundsIntersect(area.bounds, bounds)
+    );
+
+    const savedAreas = (await listSavedAreas()).filter((area) =>
+      boundsIntersect(viewportToBounds(area.viewport), bounds)
+    );
+
+    if (areas.length === 0 && savedAreas.length === 0) {
+      return null;
+    }
+
+    const stored = await AsyncStorage.multiGet(
+      areas.map((area) => OBSERVATIONS_PREFIX + area.key)
+    );
+    const observationMap = new Map<string, Observation>();
+    stored.forEach(([, value]) => {
+      if (!value) return;
+      (JSON.parse(value) as Observation[]).forEach((obs) => {
+        observationMap.set(obs.id, obs);
+      });
+    });
+
+    // Saved areas hold every taxa and provider, so apply the filters here
+    const storedSaved = await Promise.all(
+      savedAreas.map((area) => readSavedAreaObservations(area.id))
+    );
+    storedSaved.forEach((saved) => {
+      saved
+        .filter((obs) => matchesFilters(obs, filters))
+        .forEach((obs) => {
+          observationMap.set(obs.id, obs);
+        });
+    });
+
+    const savedAt = [...areas, ...savedAreas]
+      .map((area) => area.savedAt)
+      .sort()[0];
+
+    return {
+      observations: Array.from(observationMap.values()),
+      savedAt,
+    };
+  } catch (error) {
+    console.error("Error loading offline observations:", error);
+    return null;
+  }
+}
+
+/**
+ * List areas the user saved for offline use, newest first
+ */
+export async function listSavedAreas(): Promise<SavedArea[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SAVED_AREAS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading saved areas:", error);
+    return [];
+  }
+}
+
+function savedAreaUri(id: string): string {
+  return `${AREA_DIRECTORY}${id}.json`;
+}
+
+/**
+ * Read a saved area's observations, from its file or legacy storage key
+ */
+async function readSavedAreaObservations(id: string): Promise<Observation[]> {
+  const uri = savedAreaUri(id);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (info.exists) {
+    return JSON.parse(await FileSystem.readAsStringAsync(uri));
+  }
+  const legacy = await AsyncStorage.getItem(SAVED_AREA_PREFIX + id);
+  return legacy ? JSON.parse(legacy) : [];
+}
+
+/**
+ * Store a downloaded area, replacing any earlier download with the same ID
+ * Observations go to a file per area; the area list stays in AsyncStorage
+ */
+export async function storeSavedArea(
+  area: Omit<SavedArea, "sizeBytes" | "observationCount">,
+  observations: Observation[]
+): Promise<SavedArea> {
+  const serialized = JSON.stringify(
+    observations.map((obs) => ({ ...obs, raw: null }))
+  );
+  const saved: SavedArea = {
+    ...area,
+    observationCount: observations.length,
+    sizeBytes: serialized.length,
+  };
+
+  await FileSystem.makeDirectoryAsync(AREA_DIRECTORY, { intermediates: true });
+  await FileSystem.writeAsStringAsync(savedAreaUri(area.id), serialized);
+  await AsyncStorage.removeItem(SAVED_AREA_PREFIX + area.id);
+  const areas = (await listSavedAreas()).filter((a) => a.id !== area.id);
+  await AsyncStorage.setItem(SAVED_AREAS_KEY, JSON.stringify([saved, ...areas]));
+
+  return saved;
+}
+
+/**
+ * Delete a saved area, its observations and their saved photos
+ * Wikipedia summaries and photos also used by other saved areas are kept
+ */
+export async function deleteSavedArea(id: string): Promise<void> {
+  const areas = (await listSavedAreas()).filter((a) => a.id !== id);
+  const deleted = await readSavedAreaObservations(id);
+  const remaining = await Promise.all(areas.map((area) => readSavedAreaObservations(area.id)));
+
+  await AsyncStorage.setItem(SAVED_AREAS_KEY, JSON.stringify(areas));
+  await FileSystem.deleteAsync(savedAreaUri(id), { idempotent: true });
+  await AsyncStorage.removeItem(SAVED_AREA_PREFIX + id);
+
+  const keptFiles = new Set<string>();
+  remaining.flat().forEach((obs) => {
+    if (obs.photoUrl) keptFiles.add(photoFileName(obs.photoUrl));
+  });
+
+  const files = deleted
+    .filter((obs) => obs.photoUrl)
+    .map((obs) => photoFileName(obs.photoUrl!))
+    .filter((file) => !keptFiles.has(file));
+  await deletePhotos(new Set(files));
+}
+
+/**
+ * Save a Wikipedia summary for offline reading
+ */
+export async function saveOfflineWikipedia(
+  title: string,
+  summary: WikipediaSummary
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      WIKIPEDIA_PREFIX + title.toLowerCase(),
+      JSON.stringify(summary)
+    );
+  } catch (error) {
+    console.error("Error saving offline Wikipedia summary:", error);
+  }
+}
+
+/**
+ * Load a saved Wikipedia summary
+ */
+export async function loadOfflineWikipedia(
+  title: string
+): Promise<WikipediaSummary | null> {
+  try {
+    const stored = await AsyncStorage.getItem(WIKIPEDIA_PREFIX + title.toLowerCase());
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Error loading offline Wikipedia summary:", error);
+    return null;
+  }
+}
+
+/**
+ * Simple string hash for photo file names (djb2)
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function photoFileName(url: string): string {
+  return `${hashString(url)}.jpg`;
+}
+
+async function readPhotoIndex(): Promise<OfflinePhoto[]> {
+  try {
+    const stored = await AsyncStorage.getItem(PHOTO_INDEX_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+
+    // Photos saved before the index existed
+    const directory = await FileSystem.getInfoAsync(PHOTO_DIRECTORY);
+    if (!directory.exists) {
+      return [];
+    }
+    const files = await FileSystem.readDirectoryAsync(PHOTO_DIRECTORY);
+    const infos = await Promise.all(
+      files.map((file) => FileSystem.getInfoAsync(PHOTO_DIRECTORY + file))
+    );
+    return files.map((file, index) => {
+      const info = infos[index];
+      return { file, sizeBytes: info.exists ? info.size : 0 };
+    });
+  } catch (error) {
+    console.error("Error reading offline photo index:", error);
+    return [];
+  }
+}
+
+async function writePhotoIndex(photos: OfflinePhoto[]): Promise<void> {
+  await AsyncStorage.setItem(PHOTO_INDEX_KEY, JSON.stringify(photos));
+}
+
+/**
+ * Move a photo to the front of the index, then evict the least recently
+ * viewed photos until the directory fits in MAX_PHOTO_BYTES
+ */
+async function touchPhoto(photo: OfflinePhoto): Promise<void> {
+  try {
+    const photos = [photo, ...(await readPhotoIndex()).filter((p) => p.file !== photo.file)];
+
+    // Always keep the photo being viewed
+    let totalBytes = 0;
+    const kept = photos.filter((p, index) => {
+      totalBytes += p.sizeBytes;
+      return index === 0 || totalBytes <= MAX_PHOTO_BYTES;
+    });
+    const evicted = photos.filter((p) => !kept.includes(p));
+
+    await writePhotoIndex(kept);
+    await Promise.all(
+      evicted.map((p) =>
+        FileSystem.deleteAsync(PHOTO_DIRECTORY + p.file, { idempotent: true })
+      )
+    );
+  } catch (error) {
+    console.error("Error updating offline photo index:", error);
+  }
+}
+
+/**
+ * Delete saved photos by file name
+ */
+async function deletePhotos(files: Set<string>): Promise<void> {
+  if (files.size === 0) {
+    return;
+  }
+
+  const photos = await readPhotoIndex();
+  await writePhotoIndex(photos.filter((p) => !files.has(p.file)));
+  await Promise.all(
+    [...files].map((file) =>
+      FileSystem.deleteAsync(PHOTO_DIRECTORY + file, { idempotent: true })
+    )
+  );
+}
+
+/**
+ * Download a photo to device storage, or reuse an earlier download
+ * Returns the local URI, or null if the photo isn't available offline
+ */
+export async function cachePhoto(url: string): Promise<string | null> {
+  const file = photoFileName(url);
+  const localUri = PHOTO_DIRECTORY + file;
+
+  try {
+    const info = await FileSystem.getInfoAsync(localUri);
+    if (info.exists) {
+      await touchPhoto({ file, sizeBytes: info.size });
+      return localUri;
+    }
+
+    await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, { intermediates: true });
+    const result = await FileSystem.downloadAsync(url, localUri);
+    if (result.status !== 200) {
+      await FileSystem.deleteAsync(localUri, { idempotent: true });
+      return null;
+    }
+
+    const downloaded = await FileSystem.getInfoAsync(localUri);
+    await touchPhoto({ file, sizeBytes: downloaded.exists ? downloaded.size : 0 });
+    return localUri;
+  } catch (error) {
+    // Offline and never downloaded
+    return null;
+  }
+}
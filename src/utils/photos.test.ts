@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { getPhotoCredit } from "./photos";
+
+const URLS = { original: "https://example.org/photo.jpg" };
+
+describe("getPhotoCredit", () => {
+  it("keeps attributions that already name the license", () => {
+    expect(
+      getPhotoCredit({
+        urls: URLS,
+        attribution: "(c) Jane Doe, some rights reserved (CC BY-NC)",
+        licenseCode: "cc-by-nc",
+      })
+    ).toBe("(c) Jane Doe, some rights reserved (CC BY-NC)");
+    expect(
+      getPhotoCredit({ urls: URLS, attribution: "(c) Jane Doe, all rights reserved" })
+    ).toBe("(c) Jane Doe, all rights reserved");
+  });
+
+  it("appends the license to attributions without one", () => {
+    expect(
+      getPhotoCredit({ urls: URLS, attribution: "© R. Smith", licenseCode: "cc0" })
+    ).toBe("© R. Smith, CC0");
+    expect(getPhotoCredit({ urls: URLS, attribution: "© Example Museum" })).toBe(
+      "© Example Museum, All rights reserved"
+    );
+  });
+
+  it("credits an unknown photographer with the license", () => {
+    expect(getPhotoCredit({ urls: URLS, licenseCode: "cc-by" })).toBe(
+      "Unknown photographer, CC BY"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import type { Observation, ObservationPhoto, PhotoSize } from "../types/observation";
+
+/**
+ * Photos of an observation, falling back to the single photoUrl
+ * for observations saved before galleries were added
+ */
+export function getObservationPhotos(observation: Observation): ObservationPhoto[] {
+  if (observation.photos && observation.photos.length > 0) {
+    return observation.photos;
+  }
+  return observation.photoUrl ? [{ urls: { medium: observation.photoUrl } }] : [];
+}
+
+/**
+ * URL of the first available size, in order of preference
+ */
+export function getPhotoUrl(
+  photo: ObservationPhoto,
+  sizes: PhotoSize[] = ["medium", "large", "original", "small", "square"]
+): string | undefined {
+  for (const size of sizes) {
+    if (photo.urls[size]) {
+      return photo.urls[size];
+    }
+  }
+  return Object.values(photo.urls)[0];
+}
+
+/**
+ * Human-readable license name, e.g. "cc-by-nc" -> "CC BY-NC"
+ */
+export function getLicenseLabel(licenseCode?: string): string {
+  if (!licenseCode) return "All rights reserved";
+  if (licenseCode === "cc0") return "CC0";
+  return `CC ${licenseCode.replace(/^cc-/, "").toUpperCase()}`;
+}
+
+/**
+ * Credit line to show with a photo
+ * iNaturalist attributions name the license; others, like GBIF's, get it appended
+ */
+export function getPhotoCredit(photo: ObservationPhoto): string {
+  const license = getLicenseLabel(photo.licenseCode);
+  if (!photo.attribution) {
+    return `Unknown photographer, ${license}`;
+  }
+  return photo.attribution.toLowerCase().includes(license.toLowerCase())
+    ? photo.attribution
+    : `${photo.attribution}, ${license}`;
+}
+
+/**
+ * Whether a photo's license allows showing it outside the app
+ * All rights reserved and no-derivatives licenses are excluded,
+ * since previews are resized and cropped
+ */
+export function isShareablePhoto(photo: ObservationPhoto): boolean {
+  return !!photo.licenseCode && !photo.licenseCode.split("-").includes("nd");
+}
+
+/**
+ * First photo that may appear in link previews, if any
+ */
+export function getSharePreviewPhoto(observation: Observation): ObservationPhoto | null {
+  return (observation.photos || []).find(isShareablePhoto) ?? null;
+}
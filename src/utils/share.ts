@@ -0,0 +1,151 @@
+import * as Linking from "expo-linking";
+import type { Observation } from "../types/observation";
+import { TAXA_BUCKETS } from "../types/observation";
+import type { TaxaBucket } from "../types/observation";
+import { isCalendarDate } from "../types/filters";
+import type { FilterParams, RecencyFilter } from "../types/filters";
+import { PROVIDER_IDS, isProviderId } from "../types/provider";
+import type { ViewportParams } from "./viewport";
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000/api";
+
+const MAP_VIEW_PATH = "map";
+const COORDINATE_DECIMALS = 5; // About 1 m
+const RECENCY_VALUES: RecencyFilter[] = ["today", "this_week", "this_month"];
+const ALL_TIME = "all"; // Written for a null recency so links don't fall back to the default
+
+type LinkQueryParams = Record<string, string | string[] | undefined>;
+
+export interface MapView {
+  viewport: ViewportParams;
+  filters: FilterParams;
+}
+
+/**
+ * ID the share endpoint can resolve an observation from
+ * eBird observations are looked up by checklist and species, so they
+ * need both; returns null when the observation can't be shared
+ */
+export function getShareId(observation: Observation): string | null {
+  if (observation.provider !== "ebird") {
+    return observation.id;
+  }
+  if (!observation.checklistId || !observation.speciesCode) {
+    return null;
+  }
+  return `ebird-${observation.checklistId}-${observation.speciesCode}`;
+}
+
+/**
+ * Public link to an observation, or null when it can't be shared
+ */
+export function getShareUrl(observation: Observation): string | null {
+  const shareId = getShareId(observation);
+  return shareId ? `${API_URL}/share/${shareId}` : null;
+}
+
+/**
+ * Deep link that opens the map on a viewport with the given filters
+ * Every filter is written out, so the link means the same thing even
+ * if the app's default filters change
+ */
+export function getMapViewUrl(viewport: ViewportParams, filters: FilterParams): string {
+  const queryParams: Record<string, string> = {
+    lat: viewport.lat.toFixed(COORDINATE_DECIMALS),
+    lng: viewport.lng.toFixed(COORDINATE_DECIMALS),
+    latDelta: viewport.latDelta.toFixed(COORDINATE_DECIMALS),
+    lngDelta: viewport.lngDelta.toFixed(COORDINATE_DECIMALS),
+    recency: filters.recency ?? ALL_TIME,
+    provider: filters.provider.join(","),
+  };
+  if (filters.since) queryParams.since = filters.since;
+  if (filters.until) queryParams.until = filters.until;
+  if (filters.hasPhoto !== null) queryParams.hasPhoto = filters.hasPhoto ? "true" : "false";
+  if (filters.taxa.length > 0) queryParams.taxa = filters.taxa.join(",");
+  if (filters.taxonIds.length > 0) queryParams.taxonIds = filters.taxonIds.join(",");
+  if (filters.speciesCodes.length > 0) queryParams.speciesCodes = filters.speciesCodes.join(",");
+  if (filters.researchGradeOnly) queryParams.researchGrade = "true";
+  if (filters.observer) queryParams.observer = filters.observer;
+
+  return Linking.createURL(MAP_VIEW_PATH, { queryParams });
+}
+
+/**
+ * Whether a parsed deep link path is a shared map view
+ */
+export function isMapViewPath(path: string | null | undefined): boolean {
+  return path?.replace(/^\/+|\/+$/g, "") === MAP_VIEW_PATH;
+}
+
+function getParam(params: LinkQueryParams, key: string): string | null {
+  const value = params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? first : null;
+}
+
+function getListParam(params: LinkQueryParams, key: string): string[] {
+  const value = getParam(params, key);
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+function getNumberParam(params: LinkQueryParams, key: string): number | null {
+  const value = getParam(params, key);
+  if (value === null) return null;
+  const number = parseFloat(value);
+  return isFinite(number) ? number : null;
+}
+
+/**
+ * Read a shared map view from deep link query parameters
+ * Returns null without a valid viewport; unknown filter values are ignored
+ */
+export function parseMapViewParams(params: LinkQueryParams | null | undefined): MapView | null {
+  if (!params) return null;
+
+  const lat = getNumberParam(params, "lat");
+  const lng = getNumberParam(params, "lng");
+  const latDelta = getNumberParam(params, "latDelta");
+  const lngDelta = getNumberParam(params, "lngDelta");
+  if (
+    lat === null || lat < -90 || lat > 90 ||
+    lng === null || lng < -180 || lng > 180 ||
+    latDelta === null || latDelta <= 0 || latDelta > 180 ||
+    lngDelta === null || lngDelta <= 0 || lngDelta > 360
+  ) {
+    return null;
+  }
+
+  const recency = getParam(params, "recency");
+  const since = getParam(params, "since");
+  const until = getParam(params, "until");
+  const hasPhoto = getParam(params, "hasPhoto");
+  const observer = getParam(params, "observer")?.trim();
+  const providers = getListParam(params, "provider").filter(isProviderId);
+  const validSince = isCalendarDate(since) ? since : null;
+
+  return {
+    viewport: { lat, lng, latDelta, lngDelta },
+    filters: {
+      recency: RECENCY_VALUES.includes(recency as RecencyFilter)
+        ? (recency as RecencyFilter)
+        : null,
+      since: validSince,
+      // An end date only applies to a custom range
+      until: validSince && isCalendarDate(until) && until >= validSince ? until : null,
+      hasPhoto: hasPhoto === "true" ? true : hasPhoto === "false" ? false : null,
+      taxa: getListParam(params, "taxa").filter((taxa): taxa is TaxaBucket =>
+        TAXA_BUCKETS.includes(taxa as TaxaBucket)
+      ),
+      // No valid providers means the link predates them or was edited; show all
+      provider: providers.length > 0 ? providers : [...PROVIDER_IDS],
+      taxonIds: getListParam(params, "taxonIds")
+        .map((id) => parseInt(id, 10))
+        .filter((id) => !isNaN(id) && id > 0),
+      speciesCodes: getListParam(params, "speciesCodes").filter((code) =>
+        /^[a-z0-9]+$/i.test(code)
+      ),
+      researchGradeOnly: getParam(params, "researchGrade") === "true",
+      observer: observer ? observer : null,
+    },
+  };
+}
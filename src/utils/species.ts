@@ -0,0 +1,71 @@
+import type { Observation, TaxaBucket } from "../types/observation";
+import { distanceKm } from "./geo";
+
+export interface SpeciesSummary {
+  key: string;
+  commonName?: string;
+  scientificName?: string;
+  taxaBucket: TaxaBucket;
+  count: number;
+  lastObservedAt?: string; // As reported by the provider
+  nearestKm: number | null; // null without a user location
+}
+
+/**
+ * Stable key grouping observations of the same species across providers
+ * Scientific names are preferred since common names vary by provider
+ */
+export function getSpeciesKey(observation: Observation): string {
+  const name = observation.scientificName || observation.commonName || "Unknown";
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Group observations by species, most observed first
+ */
+export function summarizeSpecies(
+  observations: Observation[],
+  userLocation: { latitude: number; longitude: number } | null
+): SpeciesSummary[] {
+  const speciesMap = new Map<string, SpeciesSummary>();
+
+  observations.forEach((obs) => {
+    const key = getSpeciesKey(obs);
+    const distance = userLocation
+      ? distanceKm(userLocation.latitude, userLocation.longitude, obs.lat, obs.lng)
+      : null;
+
+    const existing = speciesMap.get(key);
+    if (!existing) {
+      speciesMap.set(key, {
+        key,
+        commonName: obs.commonName,
+        scientificName: obs.scientificName,
+        taxaBucket: obs.taxaBucket,
+        count: 1,
+        lastObservedAt: obs.observedAt,
+        nearestKm: distance,
+      });
+      return;
+    }
+
+    existing.count++;
+    existing.commonName = existing.commonName || obs.commonName;
+    existing.scientificName = existing.scientificName || obs.scientificName;
+    // Providers format dates differently, so compare parsed times
+    if (
+      obs.observedAt &&
+      (!existing.lastObservedAt ||
+        Date.parse(obs.observedAt) > Date.parse(existing.lastObservedAt))
+    ) {
+      existing.lastObservedAt = obs.observedAt;
+    }
+    if (distance !== null && (existing.nearestKm === null || distance < existing.nearestKm)) {
+      existing.nearestKm = distance;
+    }
+  });
+
+  return Array.from(speciesMap.values()).sort(
+    (a, b) => b.count - a.count || (a.commonName || a.key).localeCompare(b.commonName || b.key)
+  );
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REGION, isWideViewport } from "./viewport";
+
+describe("isWideViewport", () => {
+  it("loads observations for the launch view", () => {
+    expect(isWideViewport(DEFAULT_REGION)).toBe(false);
+  });
+
+  it("switches to server aggregates past 1° of latitude", () => {
+    expect(isWideViewport({ latitudeDelta: 1 })).toBe(false);
+    expect(isWideViewport({ latitudeDelta: 1.5 })).toBe(true);
+  });
+});
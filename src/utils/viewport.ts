@@ -19,6 +19,18 @@ export function regionToViewportParams(region: Region): ViewportParams {
   };
 }
 
+/**
+ * Convert viewport params back to a React Native Maps region
+ */
+export function viewportParamsToRegion(viewport: ViewportParams): Region {
+  return {
+    latitude: viewport.lat,
+    longitude: viewport.lng,
+    latitudeDelta: viewport.latDelta,
+    longitudeDelta: viewport.lngDelta,
+  };
+}
+
 /**
  * Default region (SF Bay Area)
  */
@@ -29,5 +41,16 @@ export const DEFAULT_REGION: Region = {
   longitudeDelta: 0.5,
 };
 
+// Well above DEFAULT_REGION so the launch view loads observations
+const WIDE_VIEWPORT_MIN_DELTA = 1;
+
+/**
+ * Whether a viewport is too tall to load every observation
+ * Wide viewports show server clusters, and the heatmap uses server-binned density
+ */
+export function isWideViewport(region: Pick<Region, "latitudeDelta">): boolean {
+  return region.latitudeDelta > WIDE_VIEWPORT_MIN_DELTA;
+}
+
 
 
@@ -22,5 +22,27 @@ export function normalizeWikipediaTitle(name: string): string {
   return normalized;
 }
 
+/**
+ * Wikipedia titles to try for an observation, in order
+ * Common name first, then scientific name
+ */
+export function getWikipediaTitles(observation: {
+  commonName?: string;
+  scientificName?: string;
+}): string[] {
+  const titles: string[] = [];
 
+  if (observation.commonName) {
+    titles.push(normalizeWikipediaTitle(observation.commonName));
+  }
 
+  if (observation.scientificName) {
+    const normalizedScientific = normalizeWikipediaTitle(observation.scientificName);
+    // Only add if different from common name
+    if (!titles.includes(normalizedScientific)) {
+      titles.push(normalizedScientific);
+    }
+  }
+
+  return titles;
+}